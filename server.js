@@ -1,23 +1,375 @@
 const http = require('http');
 const fs = require('fs');
 const path = require('path');
+const crypto = require('crypto');
 
-const server = http.createServer((req, res) => {
-    // 設置CORS標頭
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-    
-    // 處理預檢請求
-    if (req.method === 'OPTIONS') {
-        res.writeHead(200);
-        res.end();
+// 伺服器設定（可用環境變數覆寫）
+const PORT = Number(process.env.PORT) || 8080;
+const DB_PATH = process.env.MOCK_DB || path.join(__dirname, 'mock-db.json');
+// 模擬真實伺服器「testing purposes」錯誤的機率（0 ~ 1）
+const ERROR_RATE = Math.min(1, Math.max(0, Number(process.env.MOCK_ERROR_RATE) || 0));
+
+// 內建瑜伽動作資料（與前端離線資料相同）
+const YOGA_POSES = require('./src/data/yogaPoses.json');
+
+// 排序欄位設定（與前端 src/services/sorting.ts 共用）
+const SORT_FIELDS = require('./src/data/sortFields.json');
+
+// 難度排序順序
+const DIFFICULTY_ORDER = { BEGINNER: 0, INTERMEDIATE: 1, ADVANCED: 2 };
+
+// 靜態檔案 MIME 類型 - 只提供這些副檔名的檔案（不含 .json，避免洩漏資料檔與設定檔）
+const MIME_TYPES = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.svg': 'image/svg+xml',
+    '.map': 'application/json; charset=utf-8'
+};
+
+// ===== 資料儲存 =====
+
+/**
+ * 載入 JSON 資料檔（使用者、token、收藏）
+ */
+function loadDatabase() {
+    let data;
+    try {
+        data = JSON.parse(fs.readFileSync(DB_PATH, 'utf8'));
+    } catch {
+        data = { nextUserId: 1, users: [], tokens: {}, bookmarks: {} };
+    }
+    // token 表不使用原型，避免 "constructor"、"__proto__" 等鍵被當成有效 token
+    data.tokens = Object.assign(Object.create(null), data.tokens);
+    return data;
+}
+
+const db = loadDatabase();
+
+/**
+ * 寫入 JSON 資料檔
+ */
+function saveDatabase() {
+    fs.writeFile(DB_PATH, JSON.stringify(db, null, 2), (err) => {
+        if (err) console.log(`資料檔寫入失敗: ${err.message}`);
+    });
+}
+
+/**
+ * 雜湊密碼
+ */
+function hashPassword(password, salt) {
+    return crypto.scryptSync(password, salt, 64).toString('hex');
+}
+
+/**
+ * 建立新 token 並記錄所屬使用者
+ */
+function issueToken(userId) {
+    const token = crypto.randomBytes(24).toString('hex');
+    db.tokens[token] = userId;
+    saveDatabase();
+    return token;
+}
+
+/**
+ * 從 Authorization 標頭取得使用者 id
+ */
+function getUserId(req) {
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+    return token && Object.hasOwn(db.tokens, token) ? db.tokens[token] : null;
+}
+
+// ===== 回應工具 =====
+
+/**
+ * 回傳 JSON
+ */
+function sendJson(res, status, body) {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body));
+}
+
+/**
+ * 回傳錯誤（格式與真實伺服器相同）
+ */
+function sendError(res, status, error) {
+    sendJson(res, status, { error });
+}
+
+/**
+ * 讀取 JSON 請求內容
+ */
+function readBody(req) {
+    return new Promise((resolve) => {
+        let raw = '';
+        req.on('data', (chunk) => { raw += chunk; });
+        req.on('end', () => {
+            try {
+                resolve(raw ? JSON.parse(raw) : {});
+            } catch {
+                resolve(null);
+            }
+        });
+    });
+}
+
+// ===== 瑜伽動作查詢 =====
+
+/**
+ * 搜尋比對 - 不分大小寫比對名稱、梵文名、說明、好處與標籤
+ */
+function matchesSearch(pose, search) {
+    const keyword = search.trim().toLowerCase();
+    if (!keyword) return true;
+
+    return [pose.title, pose.sanskrit_name, pose.description, ...pose.benefits, ...pose.tags]
+        .some((field) => String(field).toLowerCase().includes(keyword));
+}
+
+// 文字排序語系（與前端 src/services/sorting.ts 相同）
+const collator = new Intl.Collator('zh-TW', { numeric: true, sensitivity: 'base' });
+
+/**
+ * 解析日期為時間戳，無效日期回傳 null
+ */
+function toTimestamp(value) {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? null : time;
+}
+
+// 各型別取出排序鍵的方式 - 與前端 src/services/sorting.ts 相同，確保本地與伺服器排序一致
+const KEY_READERS = {
+    text: (value) => (typeof value === 'string' && value) || null,
+    number: (value) => (typeof value === 'number' && Number.isFinite(value) ? value : null),
+    date: (value) => toTimestamp(String(value ?? '')),
+    difficulty: (value) => DIFFICULTY_ORDER[String(value ?? '').toUpperCase()] ?? null
+};
+
+// 排序欄位註冊表 - 由 sortFields.json 建立
+const SORT_REGISTRY = new Map(Object.entries(SORT_FIELDS.fields).map(([field, config]) => [field, {
+    key: (pose) => KEY_READERS[config.type](pose[config.source]),
+    tieBreakers: config.tieBreakers
+}]));
+
+// 舊版排序值的別名
+const SORT_ALIASES = new Map(Object.entries(SORT_FIELDS.aliases));
+
+/**
+ * 比較兩個排序鍵 - 缺少資料的一律排在後面
+ */
+function compareKeys(a, b) {
+    if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    return collator.compare(String(a), String(b));
+}
+
+/**
+ * 依欄位排序 - 主鍵依指定方向，次要欄位固定升冪，最後以 id 排序
+ */
+function sortPoses(poses, sort, order) {
+    const primary = SORT_REGISTRY.get(SORT_ALIASES.get(sort) || sort);
+    if (!primary) return poses;
+
+    const direction = order === 'desc' ? -1 : 1;
+    const tieBreakers = primary.tieBreakers.map((name) => SORT_REGISTRY.get(name));
+
+    return [...poses].sort((a, b) => {
+        const keyA = primary.key(a);
+        const keyB = primary.key(b);
+        const primaryResult = keyA === null || keyB === null ? compareKeys(keyA, keyB) : compareKeys(keyA, keyB) * direction;
+        if (primaryResult !== 0) return primaryResult;
+
+        for (const definition of tieBreakers) {
+            const result = compareKeys(definition.key(a), definition.key(b));
+            if (result !== 0) return result;
+        }
+
+        return a.id - b.id;
+    });
+}
+
+/**
+ * 瑜伽動作列表 - 支援 page、limit、search、category、sort、order
+ */
+function listPoses(query) {
+    const page = Math.max(1, parseInt(query.get('page'), 10) || 1);
+    const limit = Math.max(1, parseInt(query.get('limit'), 10) || 10);
+    const search = query.get('search') || '';
+    const category = query.get('category') || '';
+    const sort = query.get('sort') || '';
+
+    let matched = YOGA_POSES.filter((pose) => matchesSearch(pose, search));
+    if (category) matched = matched.filter((pose) => pose.category === category);
+    if (sort) matched = sortPoses(matched, sort, query.get('order'));
+
+    const start = (page - 1) * limit;
+    return {
+        items: matched.slice(start, start + limit),
+        pagination: { page, limit, total: matched.length }
+    };
+}
+
+// ===== API 路由 =====
+
+/**
+ * 處理 /api 請求
+ */
+async function handleApi(req, res, url) {
+    const route = url.pathname.replace(/^\/api/, '').replace(/\/+$/, '') || '/';
+    const segments = route.split('/').filter(Boolean);
+
+    // 模擬真實伺服器的隨機測試錯誤
+    if (ERROR_RATE > 0 && Math.random() < ERROR_RATE) {
+        console.log(`模擬測試錯誤: ${req.method} ${route}`);
+        sendJson(res, 500, {
+            error: 'Random server error',
+            details: 'This error is randomly generated for testing purposes'
+        });
+        return;
+    }
+
+    // 瑜伽動作
+    if (segments[0] === 'yoga-poses' && req.method === 'GET') {
+        if (segments.length === 1) {
+            sendJson(res, 200, listPoses(url.searchParams));
+        } else if (segments[1] === 'categories') {
+            sendJson(res, 200, { categories: [...new Set(YOGA_POSES.map((pose) => pose.category))] });
+        } else {
+            const pose = YOGA_POSES.find((item) => item.id === Number(segments[1]));
+            if (pose) {
+                sendJson(res, 200, pose);
+            } else {
+                sendError(res, 404, 'yoga pose not found');
+            }
+        }
+        return;
+    }
+
+    // 認證
+    if (segments[0] === 'auth') {
+        if (segments[1] === 'check' && req.method === 'GET') {
+            sendJson(res, 200, { user_id: getUserId(req) });
+            return;
+        }
+
+        if ((segments[1] === 'signup' || segments[1] === 'login') && req.method === 'POST') {
+            const body = await readBody(req);
+            const username = body && typeof body.username === 'string' ? body.username.trim() : '';
+            const password = body && typeof body.password === 'string' ? body.password : '';
+
+            if (!username || !password) {
+                sendError(res, 400, 'missing username or password');
+                return;
+            }
+
+            const existing = db.users.find((user) => user.username === username);
+
+            if (segments[1] === 'signup') {
+                if (existing) {
+                    sendError(res, 409, 'username already taken');
+                    return;
+                }
+                const salt = crypto.randomBytes(16).toString('hex');
+                const user = { id: db.nextUserId++, username, salt, password_hash: hashPassword(password, salt) };
+                db.users.push(user);
+                sendJson(res, 200, { user_id: user.id, token: issueToken(user.id) });
+                return;
+            }
+
+            const valid = existing &&
+                crypto.timingSafeEqual(
+                    Buffer.from(hashPassword(password, existing.salt), 'hex'),
+                    Buffer.from(existing.password_hash, 'hex')
+                );
+            if (!valid) {
+                sendError(res, 401, 'wrong username or password');
+                return;
+            }
+            sendJson(res, 200, { user_id: existing.id, token: issueToken(existing.id) });
+            return;
+        }
+    }
+
+    // 收藏
+    if (segments[0] === 'bookmarks') {
+        const userId = getUserId(req);
+        if (!userId) {
+            sendError(res, 401, 'missing or invalid token');
+            return;
+        }
+
+        const bookmarks = db.bookmarks[userId] || (db.bookmarks[userId] = []);
+
+        if (segments.length === 1 && req.method === 'GET') {
+            sendJson(res, 200, { item_ids: bookmarks });
+            return;
+        }
+
+        const itemId = Number(segments[1]);
+        if (segments.length === 2 && (req.method === 'POST' || req.method === 'DELETE')) {
+            if (!YOGA_POSES.some((pose) => pose.id === itemId)) {
+                sendError(res, 404, 'yoga pose not found');
+                return;
+            }
+
+            const index = bookmarks.indexOf(itemId);
+            if (req.method === 'POST') {
+                if (index > -1) {
+                    sendJson(res, 200, { message: 'already bookmarked' });
+                    return;
+                }
+                bookmarks.push(itemId);
+                saveDatabase();
+                sendJson(res, 200, { message: 'newly bookmarked' });
+            } else {
+                if (index === -1) {
+                    sendJson(res, 200, { message: 'already deleted' });
+                    return;
+                }
+                bookmarks.splice(index, 1);
+                saveDatabase();
+                sendJson(res, 200, { message: 'newly deleted' });
+            }
+            return;
+        }
+    }
+
+    sendError(res, 404, `route not found: ${req.method} ${route}`);
+}
+
+// ===== 靜態檔案 =====
+
+/**
+ * 提供靜態檔案
+ */
+function serveStatic(req, res, url) {
+    let requested;
+    try {
+        requested = url.pathname === '/' ? '/index.html' : decodeURIComponent(url.pathname);
+    } catch {
+        res.writeHead(400);
+        res.end('無效的路徑');
         return;
     }
-    
-    // 決定檔案路徑
-    let filePath = req.url === '/' ? './index.html' : '.' + req.url;
-    
+
+    // 決定檔案路徑 - 不允許存取專案目錄以外的檔案、隱藏檔、node_modules、資料檔與非靜態資源
+    const filePath = path.join(__dirname, path.normalize(requested));
+    const segments = path.relative(__dirname, filePath).split(path.sep);
+    const forbidden = !filePath.startsWith(__dirname + path.sep) ||
+        segments.some((segment) => segment.startsWith('.') || segment === 'node_modules') ||
+        filePath === path.resolve(DB_PATH) ||
+        !MIME_TYPES[path.extname(filePath).toLowerCase()];
+    if (forbidden) {
+        res.writeHead(403);
+        res.end('禁止存取');
+        return;
+    }
+
     // 讀取檔案
     fs.readFile(filePath, (err, content) => {
         if (err) {
@@ -25,20 +377,48 @@ const server = http.createServer((req, res) => {
             res.writeHead(404);
             res.end('檔案未找到');
         } else {
-            res.writeHead(200, {'Content-Type': 'text/html; charset=utf-8'});
+            const contentType = MIME_TYPES[path.extname(filePath).toLowerCase()];
+            res.writeHead(200, { 'Content-Type': contentType });
             res.end(content);
             console.log(`成功提供檔案: ${filePath}`);
         }
     });
+}
+
+const server = http.createServer((req, res) => {
+    // 設置CORS標頭
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+    // 處理預檢請求
+    if (req.method === 'OPTIONS') {
+        res.writeHead(200);
+        res.end();
+        return;
+    }
+
+    const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+
+    if (url.pathname === '/api' || url.pathname.startsWith('/api/')) {
+        handleApi(req, res, url).catch((err) => {
+            console.log(`API 處理失敗: ${err.message}`);
+            sendError(res, 500, 'internal server error');
+        });
+        return;
+    }
+
+    serveStatic(req, res, url);
 });
 
-const PORT = 8080;
 server.listen(PORT, () => {
     console.log('');
     console.log('🚀 伺服器已啟動！');
     console.log(`📍 訪問地址: http://127.0.0.1:${PORT}/index.html`);
+    console.log(`🧪 本地 API: http://127.0.0.1:${PORT}/api`);
+    console.log(`💾 資料檔: ${DB_PATH}`);
+    console.log(`⚠️  測試錯誤機率: ${ERROR_RATE}`);
     console.log('✅ CORS已啟用，API連接正常');
-    console.log('📝 所有修復已應用');
     console.log('⭐ 按 Ctrl+C 停止伺服器');
     console.log('');
-});
\ No newline at end of file
+});
@@ -1,12 +1,47 @@
-import { ApiService } from './services/api.js';
+import { ApiService, apiService } from './services/api.js';
 import { AuthManager } from './services/auth.js';
 import { FilterManager } from './services/filter.js';
 import { LocalDataAdapter } from './services/localData.js';
-import { YogaPose, LoadingState, QueryParams } from './types/index.js';
+import { getValidationReports } from './services/validation.js';
+import { AuthenticationError, NotFoundError, ApiRequestError, RequestAbortedError, describeError } from './services/errors.js';
+import { normalizeQueryKey } from './services/cache.js';
+import { SessionManager } from './services/session.js';
+import { appEvents } from './services/eventBus.js';
+import { readUrlState, writeUrlState, buildUrlQuery } from './services/urlState.js';
+import { parseRoute, navigate } from './services/router.js';
+import { PoseDetailView, convertToEmbedUrl } from './services/poseDetail.js';
+import { VirtualList } from './services/virtualList.js';
+import { SearchResult, highlightText } from './services/searchIndex.js';
+import { collectionStore } from './services/collections.js';
+import { CollectionPanel } from './services/collectionPanel.js';
+import { sequenceStore } from './services/sequences.js';
+import { SequenceBuilder } from './services/sequenceBuilder.js';
+import { practiceLog } from './services/practiceLog.js';
+import { GuidedPlayer } from './services/guidedPlayer.js';
+import { PracticeDashboard } from './services/practiceDashboard.js';
+import { PlannerPanel } from './services/plannerPanel.js';
+import { escapeHtml } from './services/format.js';
+import {
+  PAGE_SIZE_OPTIONS,
+  MAX_APPEND_PAGES,
+  loadPagingMode,
+  savePagingMode,
+  getTotalPages,
+  hasNextPage,
+  describeRange
+} from './services/pagination.js';
+import { hasLocalOnlyFilters } from './services/poseFilters.js';
+import { YogaPose, LoadingState, QueryParams, ApiResponse, LogoutReason, Route, PagingMode } from './types/index.js';
 
 // 將 LocalDataAdapter 暴露到全局作用域，以便 HTML 可以使用
 (window as any).LocalDataAdapter = LocalDataAdapter;
 
+// 暴露資料驗證報告，方便在主控台檢查後端資料格式變更
+(window as any).getValidationReports = getValidationReports;
+
+// 只看收藏時同時載入的動作數量上限
+const BOOKMARK_FETCH_CONCURRENCY = 4;
+
 /**
  * 瑜伽動作應用程式主類別
  */
@@ -22,14 +57,88 @@ export class YogaPosesApp {
   private bookmarkedIds: Set<number> = new Set();
   private currentUser: number | null = null;
   private currentFilters: QueryParams = {};
+  private stalePages: Map<number, number> = new Map();
+  private bookmarkInFlight: Map<number, Promise<void>> = new Map();
+  private bookmarkDesired: Map<number, boolean> = new Map();
+  private sessionManager: SessionManager;
+  private resumeAfterLogin: (() => void) | null = null;
+  private subscriptions: Array<() => void> = [];
+  private listController: AbortController | null = null;
+  private listRequestId: number = 0;
+  private poseDetailView: PoseDetailView;
+  private currentRoute: Route | null = null;
+  private detailOpenedFromList: boolean = false;
+  private virtualList: VirtualList<YogaPose> | null = null;
+  private pagingMode: PagingMode = loadPagingMode();
+  private totalItems: number = 0;
+  private loadMoreError: string | null = null;
+  private footerObserver: IntersectionObserver | null = null;
+  private searchMatches: Map<number, SearchResult> = new Map();
+  private bookmarkedPoses: Map<number, YogaPose | null> = new Map();
+  private viewingBookmarks: boolean = false;
+  private loadedAllResults: boolean = false;
+  private collectionPanel: CollectionPanel;
+  private sequenceBuilder: SequenceBuilder;
+  private guidedPlayer: GuidedPlayer;
+  private practiceDashboard: PracticeDashboard;
+  private plannerPanel: PlannerPanel;
 
   constructor() {
-    this.apiService = new ApiService();
+    this.apiService = apiService;
     this.authManager = new AuthManager(this.apiService);
-    this.filterManager = new FilterManager((params) => this.applyFilters(params));
+    this.filterManager = new FilterManager();
+    this.sessionManager = new SessionManager();
+    this.guidedPlayer = new GuidedPlayer(this.apiService, practiceLog);
+    this.practiceDashboard = new PracticeDashboard(practiceLog, () => [...this.bookmarkedIds]);
+    this.plannerPanel = new PlannerPanel(this.apiService, sequenceStore, (name, steps) => this.guidedPlayer.play(name, steps));
+    this.sequenceBuilder = new SequenceBuilder(sequenceStore, (sequence) => this.guidedPlayer.playSequence(sequence));
+    this.poseDetailView = new PoseDetailView(
+      this.apiService,
+      () => this.closePoseDetail(),
+      (pose) => this.addToSequence(pose)
+    );
+    // 加入收藏集的動作同時加入收藏
+    this.collectionPanel = new CollectionPanel(collectionStore, (poseId) => {
+      if (!this.bookmarkedIds.has(poseId)) this.toggleBookmark(poseId);
+    });
+    this.subscribeToAppEvents();
     this.init();
   }
 
+  /**
+   * 訂閱應用程式事件 - 只訂閱一次，取消訂閱函數保存在 subscriptions
+   */
+  private subscribeToAppEvents() {
+    if (this.subscriptions.length > 0) return;
+
+    this.subscriptions.push(
+      appEvents.on('auth:login', ({ userId }) => this.onAuthenticated(userId)),
+      appEvents.on('auth:sessionWarning', ({ remainingMs }) => this.showToast(
+        `登入將於 ${Math.max(1, Math.round(remainingMs / 60000))} 分鐘後到期，請儲存操作後重新登入`
+      )),
+      appEvents.on('auth:sessionExpired', () => this.handleSessionExpired()),
+      // 搜尋欄輸入取代目前的瀏覽紀錄，只有離散的條件變更才新增一筆
+      appEvents.on('filters:changed', ({ params, fromSearchBar }) => {
+        this.updateUrl(fromSearchBar ? 'replace' : 'push', 1);
+        this.applyFilters(params);
+      }),
+      appEvents.on('collections:changed', () => this.onCollectionsChanged()),
+      appEvents.on('bookmarks:flushed', ({ rejected }) => this.onBookmarkOutboxFlushed(rejected.length)),
+      appEvents.on('dataSource:changed', ({ source }) => this.showToast(
+        source === 'local' ? '無法連線到伺服器，已切換到離線資料' : '已重新連線到伺服器'
+      ))
+    );
+  }
+
+  /**
+   * 取消所有事件訂閱
+   */
+  destroy() {
+    this.subscriptions.forEach(unsubscribe => unsubscribe());
+    this.subscriptions = [];
+    this.sessionManager.stop();
+  }
+
   /**
    * 初始化應用程式
    */
@@ -40,20 +149,19 @@ export class YogaPosesApp {
     // 檢查登入狀態
     await this.checkAuthStatus();
     
-    // 載入初始資料
-    await this.loadInitialData();
+    // 直接開啟詳細頁連結時，不必等待列表載入
+    this.handleRoute();
+
+    // 以快取資料建立本地搜尋索引，離線時也能搜尋
+    await this.apiService.warmSearchIndex();
+
+    // 從網址還原過濾條件與頁數，再載入初始資料
+    const urlState = readUrlState();
+    this.filterManager.setState(urlState);
+    await this.loadInitialData(urlState.page);
     
     // 設定事件監聽器
     this.setupEventListeners();
-    
-    // 設定認證成功事件監聽
-    document.addEventListener('authSuccess', ((e: CustomEvent) => {
-      this.currentUser = e.detail.userId;
-      this.updateAuthUI(true);
-      this.loadBookmarks();
-      this.applyLocalFilters();
-      this.renderPoses(this.filteredPoses);
-    }) as EventListener);
   }
 
   /**
@@ -73,12 +181,24 @@ export class YogaPosesApp {
    * 檢查使用者認證狀態
    */
   private async checkAuthStatus() {
+    // 已過期的 token 直接清除，不再向伺服器確認
+    const token = this.apiService.authToken;
+    if (token && this.sessionManager.isExpired(token)) {
+      this.apiService.clearToken();
+      this.showToast('登入已過期，請重新登入');
+    }
+
     try {
       const authResult = await this.apiService.checkAuth();
       this.currentUser = authResult.user_id;
       
+      collectionStore.setUser(this.currentUser);
+      sequenceStore.setUser(this.currentUser);
+      practiceLog.setUser(this.currentUser);
+
       if (this.currentUser) {
         // 如果已登入，載入收藏列表
+        this.sessionManager.start(this.apiService.authToken!);
         await this.loadBookmarks();
         this.updateAuthUI(true);
       } else {
@@ -91,128 +211,733 @@ export class YogaPosesApp {
   }
 
   /**
-   * 載入收藏列表
+   * 載入並同步收藏列表
    */
   private async loadBookmarks() {
     try {
-      const bookmarks = await this.apiService.getBookmarks();
+      // 先送出離線期間的收藏變更，再以伺服器結果為準
+      const bookmarks = await this.apiService.syncBookmarks();
       this.bookmarkedIds = new Set(bookmarks.item_ids);
+
+      // 保留尚在送出中的收藏變更
+      this.bookmarkDesired.forEach((bookmarked, poseId) => {
+        if (bookmarked) {
+          this.bookmarkedIds.add(poseId);
+        } else {
+          this.bookmarkedIds.delete(poseId);
+        }
+      });
+
       this.updateBookmarkButtons();
+      appEvents.emit('bookmarks:synced', {
+        itemIds: [...this.bookmarkedIds],
+        pendingIds: [...this.apiService.getPendingBookmarkIds()]
+      });
       
-      // 如果目前是只看收藏模式，需要重新應用過濾
-      if (this.filterManager.isBookmarksOnly) {
-        this.applyLocalFilters();
-        this.renderPoses(this.filteredPoses);
+      // 如果目前是只看收藏模式，載入新同步的收藏動作
+      if (this.viewingBookmarks) {
+        this.applyFilters(this.currentFilters);
       }
     } catch (error) {
+      if (error instanceof AuthenticationError) {
+        this.promptReLogin();
+        return;
+      }
       console.error('載入收藏列表失敗:', error);
     }
   }
 
   /**
-   * 載入初始資料
+   * 待同步的收藏變更送出後 - 有變更被拒絕時提示並以伺服器結果為準，否則只更新同步標示
+   */
+  private onBookmarkOutboxFlushed(rejectedCount: number) {
+    if (rejectedCount > 0) {
+      this.showToast(`有 ${rejectedCount} 筆離線期間的收藏變更被伺服器拒絕，已還原為伺服器上的收藏狀態`);
+      this.loadBookmarks();
+      return;
+    }
+    this.updateBookmarkButtons();
+  }
+
+  /**
+   * 載入初始資料 - 依目前過濾條件載入第 1 到 pages 頁
    */
-  private async loadInitialData() {
+  private async loadInitialData(pages: number = 1) {
+    await this.applyFilters(this.filterManager.toQueryParams(), pages);
+
+    // 更新過濾選項（不阻塞初始化）
+    this.updateFilterOptions();
+  }
+
+  /**
+   * 開始新的列表請求 - 取消仍在進行中的舊請求，回傳請求編號與取消訊號
+   */
+  private beginListRequest(): { requestId: number; signal: AbortSignal } {
+    this.listController?.abort();
+    this.listController = new AbortController();
+    return { requestId: ++this.listRequestId, signal: this.listController.signal };
+  }
+
+  /**
+   * 應用過濾條件 - 只有最新一次請求的結果會被渲染
+   * 累加模式載入第 1 到 page 頁，分頁模式只載入第 page 頁
+   */
+  private async applyFilters(params: QueryParams, page: number = 1) {
+    // 只看收藏或篩選收藏集時載入所有相關的動作，不分頁
+    if (this.filterManager.isBookmarksOnly || this.filterManager.collectionId) {
+      await this.applyBookmarksView(params);
+      return;
+    }
+
+    this.viewingBookmarks = false;
+    this.renderBookmarkPlaceholders();
+
+    // 有本地過濾條件或關鍵字時載入完整結果，分頁與計數才會符合過濾後的列表
+    if (this.needsFullResultSet(params)) {
+      await this.applyFullResultSet(params);
+      return;
+    }
+
+    const { requestId, signal } = this.beginListRequest();
+    this.loadedAllResults = false;
+    this.currentFilters = params;
+    this.currentPage = 1;
+    this.isLoading = false;
+    this.loadMoreError = null;
+    this.hideLoadMoreLoading();
     this.showLoadingState();
-    
+
+    const paged = this.pagingMode === 'pages';
+    const lastPage = paged ? page : Math.min(page, MAX_APPEND_PAGES);
+
     try {
-      const response = await this.apiService.fetchYogaPoses({
-        page: 1,
-        limit: 3
-      });
-      
-      this.allPoses = response.items;
-      this.filteredPoses = [...this.allPoses];
-      this.currentPage = response.pagination.page;
-      this.hasMoreData = response.items.length === response.pagination.limit;
-      
-      // 更新分類選項
-      this.updateCategoryOptions();
+      const responses: ApiResponse<YogaPose>[] = [];
+
+      for (let current = paged ? page : 1; current <= lastPage; current++) {
+        const pageParams = { ...params, page: current };
+        const response = await this.apiService.fetchYogaPoses(pageParams, {
+          signal,
+          onRevalidate: (fresh) => this.onPageRevalidated(pageParams, fresh)
+        });
+        if (requestId !== this.listRequestId) return;
+
+        responses.push(response);
+        if (!hasNextPage(response.pagination)) break;
+      }
+
+      const last = responses[responses.length - 1];
+
+      // 頁碼超出範圍時改為載入最後一頁
+      if (paged && last.items.length === 0 && page > getTotalPages(last.pagination)) {
+        await this.applyFilters(params, getTotalPages(last.pagination));
+        return;
+      }
+
+      this.allPoses = responses.flatMap(response => response.items);
+      this.currentPage = last.pagination.page;
+      this.totalItems = last.pagination.total;
+      this.hasMoreData = hasNextPage(last.pagination);
+      this.stalePages.clear();
+      responses.forEach(response => this.trackCacheState(response));
       
+      this.applyLocalFilters();
       this.renderPoses(this.filteredPoses);
       this.updateLoadMoreButton();
+      this.updateListFooter();
+      this.updateCacheIndicator();
       this.hideLoadingState();
+
+      // 實際載入的頁數可能與網址要求的頁數不同
+      this.updateUrl('replace');
       
     } catch (error) {
-      this.showErrorState(error instanceof Error ? error.message : '載入資料失敗');
+      if (error instanceof RequestAbortedError || requestId !== this.listRequestId) return;
+      this.showErrorState(error);
     }
   }
 
   /**
-   * 應用過濾條件
+   * 是否需要在本地過濾完整結果 - 伺服器不支援的條件或全文索引搜尋會改變符合的數量
    */
-  private async applyFilters(params: QueryParams) {
+  private needsFullResultSet(params: QueryParams): boolean {
+    return hasLocalOnlyFilters(params) || Boolean(this.filterManager.searchText);
+  }
+
+  /**
+   * 載入符合伺服器條件的所有動作，再套用本地過濾與全文索引 - 已載入全部，不分頁
+   */
+  private async applyFullResultSet(params: QueryParams) {
+    const { requestId, signal } = this.beginListRequest();
+    this.loadedAllResults = true;
     this.currentFilters = params;
     this.currentPage = 1;
+    this.isLoading = false;
+    this.loadMoreError = null;
+    this.hideLoadMoreLoading();
     this.showLoadingState();
 
     try {
-      const response = await this.apiService.fetchYogaPoses(params);
-      
+      const response = await this.apiService.fetchAllYogaPoses(params, {
+        signal,
+        onRevalidate: (fresh) => this.onFullResultRevalidated(params, fresh)
+      });
+      if (requestId !== this.listRequestId) return;
+
       this.allPoses = response.items;
-      this.currentPage = response.pagination.page;
-      this.hasMoreData = response.items.length === response.pagination.limit;
-      
+      this.totalItems = response.pagination.total;
+      this.hasMoreData = false;
+      this.stalePages.clear();
+      this.trackCacheState(response);
+
       this.applyLocalFilters();
       this.renderPoses(this.filteredPoses);
       this.updateLoadMoreButton();
+      this.updateListFooter();
+      this.updateCacheIndicator();
       this.hideLoadingState();
-      
+      this.updateUrl('replace');
+
+    } catch (error) {
+      if (error instanceof RequestAbortedError || requestId !== this.listRequestId) return;
+      this.showErrorState(error);
+    }
+  }
+
+  /**
+   * 只看收藏或收藏集檢視要顯示的動作 id - 收藏集依加入順序
+   */
+  private viewPoseIds(): number[] {
+    const collectionId = this.filterManager.collectionId;
+    if (collectionId) return collectionStore.get(collectionId)?.itemIds || [];
+    return [...this.bookmarkedIds];
+  }
+
+  /**
+   * 只看收藏 - 載入所有收藏的動作（尚未載入的以 getYogaPose 取得並快取），再套用搜尋、過濾與排序
+   * 篩選收藏集時改為載入收藏集中的動作
+   */
+  private async applyBookmarksView(params: QueryParams) {
+    const { requestId, signal } = this.beginListRequest();
+    this.viewingBookmarks = true;
+    this.loadedAllResults = false;
+    this.currentFilters = params;
+    this.currentPage = 1;
+    this.isLoading = false;
+    this.loadMoreError = null;
+    this.hideLoadMoreLoading();
+    this.showLoadingState();
+
+    // 已載入的動作不必重新請求
+    const viewIds = new Set(this.viewPoseIds());
+    this.allPoses
+      .filter(pose => viewIds.has(pose.id))
+      .forEach(pose => this.bookmarkedPoses.set(pose.id, pose));
+    const missing = [...viewIds].filter(id => !this.bookmarkedPoses.has(id));
+
+    try {
+      const fetched = await this.apiService.getYogaPosesByIds(missing, {
+        signal,
+        concurrency: BOOKMARK_FETCH_CONCURRENCY
+      });
+      if (requestId !== this.listRequestId) return;
+
+      fetched.forEach((pose, id) => this.bookmarkedPoses.set(id, pose));
+      this.stalePages.clear();
+
+      this.renderBookmarksView();
+      this.updateCacheIndicator();
+      this.hideLoadingState();
+      this.updateUrl('replace');
+
     } catch (error) {
-      this.showErrorState(error instanceof Error ? error.message : '載入資料失敗');
+      if (error instanceof RequestAbortedError || requestId !== this.listRequestId) return;
+      this.showErrorState(error);
+    }
+  }
+
+  /**
+   * 以已載入的收藏動作重新渲染只看收藏的列表
+   */
+  private renderBookmarksView() {
+    this.allPoses = this.viewPoseIds()
+      .map(id => this.bookmarkedPoses.get(id))
+      .filter((pose): pose is YogaPose => Boolean(pose));
+    this.totalItems = this.allPoses.length;
+    this.hasMoreData = false;
+
+    this.applyLocalFilters();
+    this.renderPoses(this.filteredPoses);
+    this.renderBookmarkPlaceholders();
+    this.updateLoadMoreButton();
+    this.updateListFooter();
+  }
+
+  /**
+   * 顯示已不存在或無法載入的收藏動作，提供移除收藏或重試
+   */
+  private renderBookmarkPlaceholders() {
+    const list = document.getElementById('poses-list');
+    let container = document.getElementById('bookmark-placeholders');
+    const unavailable = this.viewingBookmarks
+      ? this.viewPoseIds().filter(id => !this.bookmarkedPoses.get(id))
+      : [];
+
+    if (!list || unavailable.length === 0) {
+      container?.remove();
+      return;
+    }
+
+    if (!container) {
+      container = document.createElement('div');
+      container.id = 'bookmark-placeholders';
+      container.className = 'bookmark-placeholders';
+      container.addEventListener('click', (e) => {
+        const target = (e.target as HTMLElement).closest<HTMLElement>('[data-pose-id]');
+        if (!target) return;
+        if (target.classList.contains('bookmark-placeholder-remove')) this.removeUnavailablePose(Number(target.dataset.poseId));
+        if (target.classList.contains('bookmark-placeholder-retry')) this.applyFilters(this.currentFilters);
+      });
+      list.insertAdjacentElement('afterend', container);
+    }
+
+    container.innerHTML = `
+      <ion-list>
+        ${unavailable.map(id => this.bookmarkedPoses.get(id) === null ? `
+          <ion-item class="bookmark-placeholder">
+            <ion-icon slot="start" name="help-circle-outline"></ion-icon>
+            <ion-label>收藏的動作 #${id} 已不存在</ion-label>
+            <ion-button slot="end" fill="clear" class="bookmark-placeholder-remove" data-pose-id="${id}">移除收藏</ion-button>
+          </ion-item>
+        ` : `
+          <ion-item class="bookmark-placeholder">
+            <ion-icon slot="start" name="alert-circle-outline"></ion-icon>
+            <ion-label>無法載入收藏的動作 #${id}</ion-label>
+            <ion-button slot="end" fill="clear" class="bookmark-placeholder-retry" data-pose-id="${id}">重試</ion-button>
+          </ion-item>
+        `).join('')}
+      </ion-list>
+    `;
+  }
+
+  /**
+   * 移除已不存在的動作 - 收藏集檢視時移出收藏集，否則取消收藏
+   */
+  private removeUnavailablePose(poseId: number) {
+    const collectionId = this.filterManager.collectionId;
+    if (collectionId) {
+      collectionStore.setMembership(collectionId, poseId, false);
+    } else {
+      this.toggleBookmark(poseId);
+    }
+  }
+
+  /**
+   * 將動作加入目前編輯中的練習序列
+   */
+  private addToSequence(pose: YogaPose) {
+    const sequence = this.sequenceBuilder.addPose(pose);
+    this.showToast(`已將「${pose.title}」加入序列「${sequence.name}」（共 ${sequence.steps.length} 個動作）`, 2500);
+  }
+
+  /**
+   * 收藏集變更 - 更新收藏集按鈕，收藏集檢視時載入新加入的動作
+   */
+  private onCollectionsChanged() {
+    if (!this.viewingBookmarks) {
+      this.virtualList?.refresh();
+      return;
+    }
+
+    const missing = this.viewPoseIds().filter(id => !this.bookmarkedPoses.has(id));
+    if (missing.length > 0) {
+      this.applyFilters(this.currentFilters);
+    } else {
+      this.renderBookmarksView();
+    }
+  }
+
+  /**
+   * 分頁模式 - 跳到指定頁並新增瀏覽紀錄
+   */
+  private goToPage(page: number) {
+    if (page < 1 || page === this.currentPage) return;
+    this.updateUrl('push', page);
+    this.applyFilters(this.currentFilters, page);
+
+    // 回到列表頂端
+    const content = document.querySelector('ion-content') as any;
+    if (content?.scrollToTop) {
+      content.scrollToTop(300);
+    } else {
+      window.scrollTo(0, 0);
+    }
+  }
+
+  /**
+   * 依網址 hash 切換列表與詳細頁
+   */
+  private handleRoute() {
+    const previous = this.currentRoute;
+    const route = parseRoute();
+    this.currentRoute = route;
+
+    if (route.name === 'pose') {
+      // 從列表進入時，返回使用瀏覽器上一頁以保留紀錄與捲動位置
+      if (previous?.name !== 'pose') {
+        this.detailOpenedFromList = previous?.name === 'list';
+      }
+      this.poseDetailView.show(route.id);
+    } else {
+      this.poseDetailView.hide();
+    }
+  }
+
+  /**
+   * 關閉詳細頁 - 直接開啟的連結沒有上一頁可回，改為取代成列表頁
+   */
+  private closePoseDetail() {
+    if (this.detailOpenedFromList) {
+      history.back();
+    } else {
+      navigate({ name: 'list' }, true);
+    }
+  }
+
+  /**
+   * 將目前的過濾條件與頁數寫入網址
+   */
+  private updateUrl(mode: 'push' | 'replace', page: number = this.currentPage) {
+    writeUrlState({ ...this.filterManager.getState(), page }, mode);
+  }
+
+  /**
+   * 瀏覽器上一頁/下一頁 - 從網址還原過濾條件與 UI 控制項
+   */
+  private restoreFromUrl() {
+    const state = readUrlState();
+    const current = buildUrlQuery({ ...this.filterManager.getState(), page: this.currentPage });
+    if (buildUrlQuery(state) === current) return;
+
+    this.filterManager.setState(state);
+    this.applyFilters(this.filterManager.toQueryParams(), state.page);
+  }
+
+  /**
+   * 記錄由過期快取提供的頁面
+   */
+  private trackCacheState(response: ApiResponse<YogaPose>) {
+    if (response.cache?.stale) {
+      this.stalePages.set(response.pagination.page, response.cache.cachedAt);
+    } else {
+      this.stalePages.delete(response.pagination.page);
+    }
+  }
+
+  /**
+   * 背景更新完成 - 過濾條件未改變時以新資料取代該頁
+   */
+  private onPageRevalidated(params: QueryParams, fresh: ApiResponse<YogaPose>) {
+    const filtersKey = (query: QueryParams) => normalizeQueryKey({ ...query, page: undefined, limit: undefined });
+    if (this.viewingBookmarks || this.loadedAllResults || filtersKey(params) !== filtersKey(this.currentFilters)) return;
+
+    const page = params.page || 1;
+    const limit = params.limit || fresh.pagination.limit;
+    const start = (page - 1) * limit;
+    if (start > this.allPoses.length) return;
+
+    this.allPoses.splice(start, Math.min(limit, this.allPoses.length - start), ...fresh.items);
+    this.stalePages.delete(page);
+
+    this.applyLocalFilters();
+    this.renderPoses(this.filteredPoses);
+    this.updateCacheIndicator();
+  }
+
+  /**
+   * 完整結果的背景更新完成 - 過濾條件未改變時以新資料取代整個列表
+   */
+  private onFullResultRevalidated(params: QueryParams, fresh: ApiResponse<YogaPose>) {
+    if (!this.loadedAllResults || normalizeQueryKey(params) !== normalizeQueryKey(this.currentFilters)) return;
+
+    this.allPoses = fresh.items;
+    this.totalItems = fresh.pagination.total;
+    this.stalePages.clear();
+    this.trackCacheState(fresh);
+
+    this.applyLocalFilters();
+    this.renderPoses(this.filteredPoses);
+    this.updateListFooter();
+    this.updateCacheIndicator();
+  }
+
+  /**
+   * 顯示或隱藏「快取資料」提示
+   */
+  private updateCacheIndicator() {
+    const list = document.getElementById('poses-list');
+    if (!list) return;
+
+    let indicator = document.getElementById('cache-indicator');
+
+    if (this.stalePages.size === 0) {
+      indicator?.remove();
+      return;
+    }
+
+    if (!indicator) {
+      indicator = document.createElement('div');
+      indicator.id = 'cache-indicator';
+      indicator.className = 'cache-indicator';
+      list.parentElement?.insertBefore(indicator, list);
     }
+
+    const cachedAt = new Date(Math.min(...this.stalePages.values()));
+    indicator.innerHTML = `
+      <ion-icon name="${navigator.onLine ? 'sync-outline' : 'cloud-offline-outline'}"></ion-icon>
+      ${navigator.onLine ? '正在更新' : '離線中'}，顯示 ${cachedAt.toLocaleString()} 的快取資料
+    `;
   }
 
   /**
    * 應用本地過濾和排序
    */
   private applyLocalFilters() {
+    // 有關鍵字時合併全文索引的結果（容許錯字，包含尚未載入頁面的快取資料）
+    const candidates = this.searchLocalIndex();
+
     // 先應用收藏過濾
-    this.filteredPoses = this.filterManager.filterLocalPoses(this.allPoses, this.bookmarkedIds);
+    this.filteredPoses = this.filterManager.filterLocalPoses(candidates, this.bookmarkedIds);
     
     // 再應用排序
     this.filteredPoses = this.filterManager.sortLocalPoses(this.filteredPoses);
+
+    // 預設排序時依相關度排列，索引未命中的伺服器結果排在後面
+    if (this.searchMatches.size > 0 && this.filterManager.currentSortValue === 'default') {
+      const scoreOf = (pose: YogaPose) => this.searchMatches.get(pose.id)?.score ?? 0;
+      this.filteredPoses = [...this.filteredPoses].sort((a, b) => scoreOf(b) - scoreOf(a));
+    }
   }
 
   /**
-   * 更新分類選項
+   * 以全文索引搜尋目前的關鍵字，回傳已載入的資料與索引命中的資料
+   * 多個關鍵字時，伺服器只比對第一個，其餘關鍵字須由索引命中
    */
-  private updateCategoryOptions() {
-    const categories = [...new Set(this.allPoses.map(pose => pose.category))];
-    this.filterManager.updateCategoryOptions(categories);
+  private searchLocalIndex(): YogaPose[] {
+    const text = this.filterManager.searchText;
+    if (!text) {
+      this.searchMatches = new Map();
+      return this.allPoses;
+    }
+
+    // 離線時列表來自內建資料集，須以同一份資料的索引比對與標示
+    const results = this.apiService.activeSearchIndex.search(text);
+    this.searchMatches = new Map(results.map(result => [result.pose.id, result]));
+
+    const loadedIds = new Set(this.allPoses.map(pose => pose.id));
+    // 只看收藏時的資料未經伺服器搜尋，全部由索引比對
+    const serverMatched = !this.viewingBookmarks && !this.currentFilters.terms?.length;
+    // 只有已載入完整結果時才併入索引命中的動作，否則列表會與伺服器的總數不一致
+    const indexHits = this.viewingBookmarks || this.loadedAllResults
+      ? results.map(result => result.pose).filter(pose => !loadedIds.has(pose.id))
+      : [];
+
+    return [
+      ...this.allPoses.filter(pose => serverMatched || this.searchMatches.has(pose.id)),
+      ...indexHits
+    ];
   }
 
   /**
-   * 載入更多資料
+   * 更新過濾選項（分類、難度、標籤、導師與時長範圍）
+   */
+  private async updateFilterOptions() {
+    try {
+      this.filterManager.updateFilterOptions(await this.apiService.getFilterOptions());
+    } catch (error) {
+      console.warn('載入過濾選項失敗:', error);
+    }
+  }
+
+
+  /**
+   * 載入更多資料 - 失敗時在列表底部顯示錯誤與重試按鈕
    */
   private async loadMore() {
     if (this.isLoading || !this.hasMoreData) return;
     
+    const { requestId, signal } = this.beginListRequest();
     this.isLoading = true;
+    this.loadMoreError = null;
     this.showLoadMoreLoading();
+    this.updateListFooter();
     
     try {
       const params = {
         ...this.currentFilters,
-        page: this.currentPage + 1,
-        limit: 3
+        page: this.currentPage + 1
       };
       
-      const response = await this.apiService.fetchYogaPoses(params);
+      const response = await this.apiService.fetchYogaPoses(params, {
+        signal,
+        onRevalidate: (fresh) => this.onPageRevalidated(params, fresh)
+      });
+      // 過濾條件已變更，丟棄舊條件的下一頁
+      if (requestId !== this.listRequestId) return;
       
       this.allPoses.push(...response.items);
       this.currentPage = response.pagination.page;
-      this.hasMoreData = response.items.length === response.pagination.limit;
+      this.totalItems = response.pagination.total;
+      this.hasMoreData = hasNextPage(response.pagination);
+      this.trackCacheState(response);
       
       this.applyLocalFilters();
       this.renderPoses(this.filteredPoses);
       this.updateLoadMoreButton();
+      this.updateCacheIndicator();
+      this.updateUrl('replace');
       
     } catch (error) {
-      this.showErrorMessage(`載入更多資料失敗: ${error instanceof Error ? error.message : '未知錯誤'}`);
+      if (error instanceof RequestAbortedError || requestId !== this.listRequestId) return;
+      this.loadMoreError = `載入更多資料失敗: ${describeError(error)}`;
     } finally {
-      this.isLoading = false;
-      this.hideLoadMoreLoading();
+      if (requestId === this.listRequestId) {
+        this.isLoading = false;
+        this.hideLoadMoreLoading();
+        this.updateListFooter();
+      }
+    }
+  }
+
+  /**
+   * 更新列表底部狀態 - 顯示範圍、載入中、錯誤重試、跳頁導覽，以及載入方式與每頁數量設定
+   * 自動載入模式下，底部進入畫面時載入下一頁
+   */
+  private updateListFooter() {
+    const list = document.getElementById('poses-list');
+    if (!list) return;
+
+    let footer = document.getElementById('list-footer');
+    if (!footer) {
+      footer = document.createElement('div');
+      footer.id = 'list-footer';
+      footer.className = 'list-footer';
+      footer.style.cssText = 'text-align: center; padding: 16px;';
+      footer.addEventListener('click', (e) => {
+        const target = e.target as HTMLElement;
+        if (target.closest('.list-footer-retry')) this.loadMore();
+        if (target.closest('.list-footer-prev')) this.goToPage(this.currentPage - 1);
+        if (target.closest('.list-footer-next')) this.goToPage(this.currentPage + 1);
+      });
+      footer.addEventListener('ionChange', (e: any) => {
+        const target = e.target as HTMLElement;
+        const value = e.detail.value;
+        if (target.classList.contains('list-footer-page')) this.goToPage(Number(value));
+        if (target.classList.contains('list-footer-size')) this.filterManager.setPageSize(Number(value));
+        if (target.classList.contains('list-footer-mode')) this.setPagingMode(value);
+      });
+      list.insertAdjacentElement('afterend', footer);
+
+      if (typeof IntersectionObserver !== 'undefined') {
+        this.footerObserver = new IntersectionObserver(entries => {
+          const visible = entries.some(entry => entry.isIntersecting);
+          if (visible && this.pagingMode === 'infinite' && !this.loadMoreError) {
+            this.loadMore();
+          }
+        }, { rootMargin: '600px 0px' });
+      }
+    }
+
+    // 只看收藏或本地過濾時已載入全部，不分頁，並以過濾後的數量計數
+    const infinite = this.pagingMode === 'infinite';
+    const loadedAll = this.viewingBookmarks || this.loadedAllResults;
+    const paged = this.pagingMode === 'pages' && !loadedAll;
+    const limit = this.filterManager.pageSizeValue;
+    const from = paged ? (this.currentPage - 1) * limit + 1 : 1;
+
+    let status = '';
+    if (this.loadMoreError) {
+      status = `
+        <p class="list-footer-error" style="color: #e53e3e;">${this.loadMoreError}</p>
+        <ion-button fill="outline" size="small" class="list-footer-retry">
+          <ion-icon slot="start" name="refresh-outline"></ion-icon>
+          重試
+        </ion-button>
+      `;
+    } else if (paged) {
+      status = this.renderPageNavigation(getTotalPages({ page: this.currentPage, limit, total: this.totalItems }));
+    } else if (this.isLoading && infinite) {
+      status = '<ion-spinner name="crescent"></ion-spinner><p>載入中...</p>';
+    } else if (!this.hasMoreData && this.allPoses.length > 0) {
+      status = '<p>已載入全部瑜伽動作</p>';
+    }
+
+    footer.innerHTML = `
+      <p class="list-footer-range">
+        ${loadedAll
+          ? describeRange(1, this.filteredPoses.length, this.filteredPoses.length)
+          : describeRange(from, from + this.allPoses.length - 1, this.totalItems)}
+      </p>
+      ${status}
+      <div class="list-footer-settings" style="display: flex; justify-content: center; gap: 8px;">
+        <ion-select class="list-footer-mode" interface="popover" value="${this.pagingMode}" aria-label="載入方式">
+          <ion-select-option value="infinite">捲動自動載入</ion-select-option>
+          <ion-select-option value="manual">按鈕載入更多</ion-select-option>
+          <ion-select-option value="pages">分頁瀏覽</ion-select-option>
+        </ion-select>
+        <ion-select class="list-footer-size" interface="popover" value="${limit}" aria-label="每頁數量">
+          ${PAGE_SIZE_OPTIONS.map(size => `<ion-select-option value="${size}">每頁 ${size} 項</ion-select-option>`).join('')}
+        </ion-select>
+      </div>
+    `;
+
+    // 重新觀察以便在底部仍可見時（內容不足一頁）繼續載入
+    if (this.footerObserver) {
+      this.footerObserver.unobserve(footer);
+      if (infinite && this.hasMoreData && !this.isLoading) {
+        this.footerObserver.observe(footer);
+      }
+    }
+  }
+
+  /**
+   * 跳頁導覽 - 上一頁、頁碼選單、下一頁
+   */
+  private renderPageNavigation(totalPages: number): string {
+    const pageOptions = Array.from({ length: totalPages }, (_, index) => index + 1)
+      .map(page => `<ion-select-option value="${page}">第 ${page} / ${totalPages} 頁</ion-select-option>`)
+      .join('');
+
+    return `
+      <div class="list-footer-pages" style="display: flex; justify-content: center; align-items: center; gap: 8px;">
+        <ion-button fill="outline" size="small" class="list-footer-prev" ${this.currentPage <= 1 ? 'disabled' : ''}>
+          <ion-icon slot="icon-only" name="chevron-back-outline"></ion-icon>
+        </ion-button>
+        <ion-select class="list-footer-page" interface="popover" value="${this.currentPage}" aria-label="跳到頁碼">
+          ${pageOptions}
+        </ion-select>
+        <ion-button fill="outline" size="small" class="list-footer-next" ${this.hasMoreData ? '' : 'disabled'}>
+          <ion-icon slot="icon-only" name="chevron-forward-outline"></ion-icon>
+        </ion-button>
+      </div>
+    `;
+  }
+
+  /**
+   * 切換載入方式並記住使用者偏好 - 累加與分頁之間切換時從第 1 頁重新載入
+   */
+  private setPagingMode(mode: PagingMode) {
+    if (mode === this.pagingMode) return;
+
+    const reload = (mode === 'pages') !== (this.pagingMode === 'pages');
+    this.pagingMode = mode;
+    savePagingMode(mode);
+
+    if (reload) {
+      this.updateUrl('replace', 1);
+      this.applyFilters(this.currentFilters, 1);
+    } else {
+      this.updateLoadMoreButton();
+      this.updateListFooter();
     }
   }
 
@@ -223,37 +948,82 @@ export class YogaPosesApp {
     const container = document.getElementById('poses-list');
     if (!container) return;
 
-    container.innerHTML = poses.map(pose => `
+    // 容器被替換時（例如顯示載入狀態後）重新建立虛擬列表
+    if (!this.virtualList || this.virtualList.container !== container) {
+      this.virtualList?.destroy();
+      this.virtualList = new VirtualList<YogaPose>(container, {
+        getKey: pose => pose.id,
+        renderItem: pose => this.renderPoseCard(pose, this.apiService.getPendingBookmarkIds()),
+        onRender: () => {
+          // 重新設定收藏按鈕事件
+          this.setupBookmarkButtons();
+
+          // 重新設定標籤點擊事件 (Assignment 2.1 功能)
+          this.setupTagClickEvents();
+        }
+      });
+    }
+
+    // 只有可視範圍附近的卡片會放進 DOM
+    this.virtualList.setItems(poses);
+  }
+
+  /**
+   * 渲染單張瑜伽動作卡片
+   */
+  private renderPoseCard(pose: YogaPose, pendingIds: Set<number>): string {
+    // 標示命中的關鍵字
+    const terms = this.searchMatches.get(pose.id)?.terms || new Set<string>();
+    const benefits = pose.benefits.length > 0 ? pose.benefits.join(', ') : pose.description;
+    const collectionId = this.filterManager.collectionId;
+    const note = collectionId ? collectionStore.getNote(collectionId, pose.id) : '';
+    const inCollection = this.currentUser !== null && collectionStore.collectionsOf(pose.id).length > 0;
+
+    return `
       <ion-item class="list-item">
         <div class="item-content">
           <!-- Assignment 2.2 新增：收藏按鈕 -->
           ${this.currentUser ? `
             <ion-button 
               fill="clear" 
-              class="bookmark-btn ${this.bookmarkedIds.has(pose.id) ? 'bookmarked' : ''}"
+              class="bookmark-btn ${this.bookmarkedIds.has(pose.id) ? 'bookmarked' : ''} ${pendingIds.has(pose.id) ? 'pending-sync' : ''}"
               data-pose-id="${pose.id}"
+              title="${pendingIds.has(pose.id) ? '等待同步' : ''}"
             >
               <ion-icon name="${this.bookmarkedIds.has(pose.id) ? 'bookmark' : 'bookmark-outline'}"></ion-icon>
             </ion-button>
+            <ion-button fill="clear" class="collection-btn" data-pose-id="${pose.id}" title="加入收藏集">
+              <ion-icon name="${inCollection ? 'folder' : 'folder-outline'}"></ion-icon>
+            </ion-button>
           ` : ''}
           
+          <ion-button fill="clear" class="sequence-add-btn" data-pose-id="${pose.id}" title="加入序列">
+            <ion-icon name="add-circle-outline"></ion-icon>
+          </ion-button>
+          
           <!-- Assignment 2.1 原有結構 -->
-          <div class="item-pose">${pose.title}</div>
+          <div class="item-pose">
+            <a href="#/poses/${pose.id}" class="item-pose-link">${highlightText(pose.title, terms)}</a>
+          </div>
+          ${note ? `<div class="item-note">筆記：${highlightText(note, terms)}</div>` : ''}
           <div class="item-level">${pose.level || 'Level : 未知'}</div>
-          <div class="item-benefits">${pose.benefits || pose.description}</div>
+          <div class="item-benefits">${highlightText(benefits, terms)}</div>
           <div class="item-keys">${pose.keys || '暫無要點資訊'}</div>
           <div class="item-cautions">${pose.cautions || '暫無注意事項'}</div>
           
           <!-- Assignment 2.1 原有：媒體容器 -->
           <div class="media-container">
             <div class="item-image-container">
-              <img class="item-image" src="${pose.imageUrl}" alt="${pose.title}" 
-                   style="width: 100%; max-width: 550px; height: 310px; border-radius: 16px;">
+              <a href="#/poses/${pose.id}">
+                <img class="item-image" src="${pose.imageUrl}" alt="${pose.title}" loading="lazy" 
+                     style="width: 100%; max-width: 550px; height: 310px; border-radius: 16px;">
+              </a>
             </div>
             ${pose.videoUrl ? `
               <div class="item-video-container">
                 <iframe class="item-video" 
-                        src="${this.convertToEmbedUrl(pose.videoUrl)}" 
+                        src="${convertToEmbedUrl(pose.videoUrl)}" 
+                        loading="lazy" 
                         frameborder="0" 
                         allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture" 
                         allowfullscreen>
@@ -264,30 +1034,24 @@ export class YogaPosesApp {
           
           <!-- Assignment 2.1 原有：標籤容器 -->
           <div class="tag-container">
-            ${this.renderTags(pose)}
+            ${this.renderTags(pose, terms)}
           </div>
         </div>
       </ion-item>
-    `).join('');
-
-    // 重新設定收藏按鈕事件
-    this.setupBookmarkButtons();
-    
-    // 重新設定標籤點擊事件 (Assignment 2.1 功能)
-    this.setupTagClickEvents();
+    `;
   }
 
   /**
    * Assignment 2.1 功能：渲染標籤
    */
-  private renderTags(pose: YogaPose): string {
+  private renderTags(pose: YogaPose, terms: Set<string> = new Set()): string {
     if (!pose.tags || pose.tags.length === 0) {
       return '';
     }
 
     return pose.tags.slice(0, 3).map((tag, index) => {
       const tagClass = `item-tag-${index + 1}`;
-      return `<ion-chip size="small" class="${tagClass}" data-tag="${tag}">${tag}</ion-chip>`;
+      return `<ion-chip size="small" class="${tagClass}" data-tag="${tag}">${highlightText(tag, terms)}</ion-chip>`;
     }).join('');
   }
 
@@ -300,27 +1064,14 @@ export class YogaPosesApp {
       chip.addEventListener('click', () => {
         const tag = (chip as HTMLElement).dataset.tag;
         if (tag) {
-          const searchBar = document.getElementById('search-bar') as any;
-          if (searchBar) {
-            searchBar.value = tag;
-            // 觸發搜尋
-            this.applyFilters({ page: 1, limit: 3, search: tag });
-          }
+          // 更新搜尋欄並觸發搜尋
+          this.filterManager.setState({ search: tag }, true);
         }
       });
     });
   }
 
-  /**
-   * 將 YouTube URL 轉換為嵌入格式
-   */
-  private convertToEmbedUrl(url: string): string {
-    if (url.includes('youtube.com/watch?v=')) {
-      const videoId = url.split('v=')[1].split('&')[0];
-      return `https://www.youtube.com/embed/${videoId}`;
-    }
-    return url;
-  }
+
 
   /**
    * 顯示載入狀態
@@ -345,23 +1096,99 @@ export class YogaPosesApp {
   }
 
   /**
-   * 顯示錯誤狀態
+   * 顯示錯誤狀態 - 依錯誤類型提供不同的處理方式
    */
-  private showErrorState(message: string) {
+  private showErrorState(error: unknown) {
     const container = document.getElementById('poses-container');
     if (!container) return;
+
+    const message = describeError(error, '載入資料失敗');
+    const isAuthError = error instanceof AuthenticationError;
+    const canRetry = !(error instanceof ApiRequestError) || error.retryable;
     
     container.innerHTML = `
       <div class="error-container">
         <ion-icon name="alert-circle-outline" class="error-icon"></ion-icon>
         <h3>載入失敗</h3>
-        <p>${message}</p>
-        <ion-button fill="outline" onclick="location.reload()">
-          <ion-icon slot="start" name="refresh-outline"></ion-icon>
-          重新載入
-        </ion-button>
+        <p>${escapeHtml(message)}</p>
+        ${isAuthError ? `
+          <ion-button fill="outline" id="error-login-btn">
+            <ion-icon slot="start" name="log-in-outline"></ion-icon>
+            重新登入
+          </ion-button>
+        ` : `
+          <ion-button fill="outline" id="error-retry-btn">
+            <ion-icon slot="start" name="refresh-outline"></ion-icon>
+            ${canRetry ? '重試' : '重新載入'}
+          </ion-button>
+        `}
       </div>
     `;
+
+    if (isAuthError) {
+      document.getElementById('error-login-btn')?.addEventListener('click', () => this.promptReLogin());
+    } else {
+      // 可重試的錯誤保留過濾條件與頁碼重新請求，其餘錯誤才重新載入頁面
+      document.getElementById('error-retry-btn')?.addEventListener('click', () => {
+        if (canRetry) {
+          this.applyFilters(this.currentFilters, readUrlState().page);
+        } else {
+          location.reload();
+        }
+      });
+    }
+  }
+
+  /**
+   * 登入失效時清除狀態並重新開啟登入視窗，重新登入後繼續執行失敗的操作
+   */
+  private promptReLogin(resume?: () => void, reason: LogoutReason = 'unauthorized') {
+    this.resumeAfterLogin = resume || null;
+    this.logout(reason);
+    this.authManager.showAuthModal();
+  }
+
+  /**
+   * 登入成功 - 開始追蹤工作階段並載入收藏
+   */
+  private async onAuthenticated(userId: number) {
+    this.currentUser = userId;
+    collectionStore.setUser(userId);
+    sequenceStore.setUser(userId);
+    practiceLog.setUser(userId);
+    this.updateAuthUI(true);
+    if (this.apiService.authToken) {
+      this.sessionManager.start(this.apiService.authToken);
+    }
+    this.applyLocalFilters();
+    this.renderPoses(this.filteredPoses); // 重新渲染以顯示收藏按鈕
+
+    await this.loadBookmarks();
+
+    const resume = this.resumeAfterLogin;
+    this.resumeAfterLogin = null;
+    resume?.();
+  }
+
+  /**
+   * 工作階段到期 - 登出並提示重新登入
+   */
+  private handleSessionExpired() {
+    this.showToast('登入已過期，請重新登入');
+    this.promptReLogin(undefined, 'expired');
+  }
+
+  /**
+   * 顯示提示訊息（不中斷操作）
+   */
+  private showToast(message: string, duration: number = 4000) {
+    const toast = document.createElement('ion-toast') as any;
+    toast.message = message;
+    toast.duration = duration;
+    toast.position = 'top';
+    toast.addEventListener('didDismiss', () => toast.remove());
+    document.body.appendChild(toast);
+    toast.present?.();
   }
 
   /**
@@ -399,7 +1226,7 @@ export class YogaPosesApp {
     const button = document.getElementById('load-more-btn');
     if (!button) return;
     
-    if (this.hasMoreData) {
+    if (this.hasMoreData && this.pagingMode === 'manual') {
       button.style.display = 'block';
     } else {
       button.style.display = 'none';
@@ -431,14 +1258,53 @@ export class YogaPosesApp {
       authBtn.addEventListener('click', () => this.toggleAuthModal());
     }
 
-    // 監聽認證成功事件
-    document.addEventListener('authSuccess', (event: any) => {
-      this.currentUser = event.detail.userId;
-      this.updateAuthUI(true);
-      this.loadBookmarks();
-      this.applyLocalFilters();
-      this.renderPoses(this.filteredPoses); // 重新渲染以顯示收藏按鈕
+    // 網路狀態改變時更新快取提示，恢復連線後同步離線期間的收藏變更
+    window.addEventListener('online', () => {
+      this.updateCacheIndicator();
+      if (this.currentUser) {
+        this.loadBookmarks();
+      }
     });
+    window.addEventListener('offline', () => this.updateCacheIndicator());
+
+    // 瀏覽器上一頁/下一頁時還原過濾條件
+    window.addEventListener('popstate', () => this.restoreFromUrl());
+
+    // 列表與詳細頁路由
+    window.addEventListener('hashchange', () => this.handleRoute());
+
+    // 自動排課
+    this.addHeaderButton('planner-btn', 'sparkles-outline', '自動排課', () => this.plannerPanel.open());
+
+    // 練習紀錄
+    this.addHeaderButton('history-btn', 'stats-chart-outline', '練習紀錄', () => this.practiceDashboard.open());
+
+    // 收藏集管理
+    document.getElementById('manage-collections-btn')?.addEventListener('click', () => {
+      if (!this.currentUser) {
+        alert('請先登入才能使用收藏集');
+        return;
+      }
+      this.collectionPanel.openManager();
+    });
+  }
+
+  /**
+   * 綁定頁首按鈕 - 頁面未提供時建立在登入按鈕之前
+   */
+  private addHeaderButton(id: string, icon: string, label: string, onClick: () => void) {
+    let button = document.getElementById(id);
+
+    if (!button) {
+      const authBtn = document.getElementById('auth-btn');
+      if (!authBtn) return;
+      button = document.createElement('ion-button');
+      button.id = id;
+      button.innerHTML = `<ion-icon slot="start" name="${icon}"></ion-icon>${label}`;
+      authBtn.insertAdjacentElement('beforebegin', button);
+    }
+
+    button.addEventListener('click', onClick);
   }
 
   /**
@@ -447,42 +1313,128 @@ export class YogaPosesApp {
   private setupBookmarkButtons() {
     const bookmarkBtns = document.querySelectorAll('.bookmark-btn');
     bookmarkBtns.forEach(btn => {
-      btn.addEventListener('click', async (e) => {
+      btn.addEventListener('click', (e) => {
         e.stopPropagation();
         const poseId = parseInt((btn as HTMLElement).dataset.poseId || '0');
-        await this.toggleBookmark(poseId);
+        this.toggleBookmark(poseId);
       });
     });
+
+    // 加入練習序列
+    document.querySelectorAll<HTMLElement>('.sequence-add-btn').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        const pose = this.findRenderedPose(Number(btn.dataset.poseId));
+        if (pose) {
+          this.addToSequence(pose);
+        } else {
+          this.showToast('找不到這個瑜伽動作，請重新整理列表後再試');
+        }
+      });
+    });
+
+    // 收藏集選擇器
+    document.querySelectorAll<HTMLElement>('.collection-btn').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        const poseId = Number(btn.dataset.poseId);
+        const pose = this.findRenderedPose(poseId);
+        this.collectionPanel.openPicker(poseId, pose?.title || `#${poseId}`);
+      });
+    });
+  }
+
+  /**
+   * 找出卡片對應的動作 - 列表可能包含索引命中或只看收藏載入的動作，不一定在 allPoses 中
+   */
+  private findRenderedPose(poseId: number): YogaPose | undefined {
+    return this.filteredPoses.find(pose => pose.id === poseId) || this.bookmarkedPoses.get(poseId) || undefined;
   }
 
   /**
-   * 切換收藏狀態
+   * 切換收藏狀態 - 立即更新 UI，背景同步到伺服器
+   * 每個動作同時只有一個請求，期間的連續點擊會合併為最後的狀態
    */
-  private async toggleBookmark(poseId: number) {
+  private toggleBookmark(poseId: number) {
     if (!this.currentUser) {
       alert('請先登入才能收藏');
       return;
     }
 
+    const wasBookmarked = this.bookmarkedIds.has(poseId);
+    this.bookmarkDesired.set(poseId, !wasBookmarked);
+    this.setLocalBookmark(poseId, !wasBookmarked);
+
+    if (!this.bookmarkInFlight.has(poseId)) {
+      const request = this.syncBookmark(poseId, wasBookmarked).finally(() => {
+        this.bookmarkInFlight.delete(poseId);
+        this.bookmarkDesired.delete(poseId);
+      });
+      this.bookmarkInFlight.set(poseId, request);
+    }
+  }
+
+  /**
+   * 將收藏狀態同步到伺服器，直到與使用者最後選擇的狀態一致
+   */
+  private async syncBookmark(poseId: number, serverState: boolean) {
+    let needsResync = false;
+
     try {
-      if (this.bookmarkedIds.has(poseId)) {
-        await this.apiService.removeBookmark(poseId);
-        this.bookmarkedIds.delete(poseId);
-      } else {
-        await this.apiService.addBookmark(poseId);
-        this.bookmarkedIds.add(poseId);
-      }
-      
-      this.updateBookmarkButtons();
-      
-      // 如果目前是只看收藏模式，需要重新應用過濾
-      if (this.filterManager.isBookmarksOnly) {
-        this.applyLocalFilters();
-        this.renderPoses(this.filteredPoses);
+      while (this.bookmarkDesired.get(poseId) !== serverState) {
+        const response = this.bookmarkDesired.get(poseId)
+          ? await this.apiService.addBookmark(poseId)
+          : await this.apiService.removeBookmark(poseId);
+
+        serverState = response.message === 'newly bookmarked' || response.message === 'already bookmarked';
+
+        // 「已收藏」或「已取消」表示本地狀態與伺服器不一致
+        if (response.message === 'already bookmarked' || response.message === 'already deleted') {
+          needsResync = true;
+        }
       }
-      
     } catch (error) {
-      this.showErrorMessage(`收藏操作失敗: ${error instanceof Error ? error.message : '未知錯誤'}`);
+      // 伺服器拒絕，還原到最後確認的狀態
+      this.setLocalBookmark(poseId, serverState);
+
+      if (error instanceof AuthenticationError) {
+        // 登入失效，重新登入後再次套用使用者選擇的收藏狀態
+        const desired = this.bookmarkDesired.get(poseId);
+        this.showToast(describeError(error));
+        this.promptReLogin(() => {
+          if (desired !== undefined && this.bookmarkedIds.has(poseId) !== desired) {
+            this.toggleBookmark(poseId);
+          }
+        });
+      } else if (error instanceof NotFoundError) {
+        this.showErrorMessage('此瑜伽動作已不存在，無法收藏');
+      } else {
+        this.showErrorMessage(`收藏操作失敗，已還原: ${describeError(error)}`);
+      }
+      return;
+    }
+
+    if (needsResync) {
+      await this.loadBookmarks();
+    }
+  }
+
+  /**
+   * 更新本地收藏狀態與 UI
+   */
+  private setLocalBookmark(poseId: number, bookmarked: boolean) {
+    if (bookmarked) {
+      this.bookmarkedIds.add(poseId);
+    } else {
+      this.bookmarkedIds.delete(poseId);
+    }
+    appEvents.emit('bookmark:changed', { poseId, bookmarked });
+
+    this.updateBookmarkButtons();
+
+    // 如果目前是只看收藏模式，需要重新應用過濾
+    if (this.viewingBookmarks) {
+      this.renderBookmarksView();
     }
   }
 
@@ -490,10 +1442,15 @@ export class YogaPosesApp {
    * 更新收藏按鈕狀態
    */
   private updateBookmarkButtons() {
+    const pendingIds = this.apiService.getPendingBookmarkIds();
     const bookmarkBtns = document.querySelectorAll('.bookmark-btn');
     bookmarkBtns.forEach(btn => {
       const poseId = parseInt((btn as HTMLElement).dataset.poseId || '0');
       const isBookmarked = this.bookmarkedIds.has(poseId);
+
+      // 標示尚未同步到伺服器的收藏
+      btn.classList.toggle('pending-sync', pendingIds.has(poseId));
+      btn.setAttribute('title', pendingIds.has(poseId) ? '等待同步' : '');
       
       if (isBookmarked) {
         btn.classList.add('bookmarked');
@@ -541,13 +1498,23 @@ export class YogaPosesApp {
   /**
    * 登出
    */
-  private logout() {
+  private logout(reason: LogoutReason = 'user') {
+    this.sessionManager.stop();
     this.apiService.clearToken();
     this.currentUser = null;
     this.bookmarkedIds.clear();
+    // 先結束進行中的練習，紀錄歸屬登出前的使用者
+    this.guidedPlayer.close();
+    this.practiceDashboard.close();
+    this.plannerPanel.close();
+    collectionStore.setUser(null);
+    sequenceStore.setUser(null);
+    practiceLog.setUser(null);
     this.updateAuthUI(false);
     this.applyLocalFilters();
     this.renderPoses(this.filteredPoses); // 重新渲染以移除收藏按鈕
+    this.renderBookmarkPlaceholders();
+    appEvents.emit('auth:logout', { reason });
   }
 }
 
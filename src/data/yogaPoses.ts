@@ -0,0 +1,8 @@
+import { YogaPose } from '../types/index.js';
+import seedPoses from './yogaPoses.json';
+
+/**
+ * 內建瑜伽動作資料集 - 離線或示範模式使用，欄位與 API 回應相同
+ * 資料存放於 yogaPoses.json，與本地 mock 伺服器（server.js）共用
+ */
+export const SEED_YOGA_POSES: YogaPose[] = seedPoses;
@@ -5,52 +5,228 @@ import {
   AuthResponse,
   BookmarkResponse,
   BookmarkListResponse,
+  BookmarkMutation,
   QueryParams,
-  ApiError
+  FetchOptions,
+  CacheInfo,
+  FilterOptions,
+  DataSource,
+  ApiConfig,
+  RequestInterceptor,
+  ResponseInterceptor
 } from '../types/index.js';
 import { LocalDataAdapter } from './localData.js';
-
-// API 基礎設定
-const BASE_URL = 'https://dae-mobile-assignment.hkit.cc/api';
+import { loadApiConfig } from './config.js';
+import { DataCache, normalizeQueryKey } from './cache.js';
+import { BookmarkOutbox } from './bookmarkOutbox.js';
+import { recordTokenIssuedAt, clearTokenIssuedAt } from './session.js';
+import { appEvents } from './eventBus.js';
+import { toServerParams, extractFilterOptions } from './poseFilters.js';
+import { SearchIndex } from './searchIndex.js';
+import {
+  ApiRequestError,
+  NetworkError,
+  AuthenticationError,
+  RequestAbortedError,
+  NotFoundError,
+  MalformedResponseError,
+  createApiError
+} from './errors.js';
+import {
+  decodeYogaPose,
+  decodeYogaPoseList,
+  decodeAuthResponse,
+  decodeBookmarkListResponse,
+  decodeCategoriesResponse
+} from './validation.js';
+
+// API 資源路徑
 const RESOURCE_ENDPOINT = '/yoga-poses';
 
+// 快取有效時間（超過後仍可使用，但會在背景更新）
+const CACHE_TTL = {
+  list: 5 * 60 * 1000,
+  pose: 30 * 60 * 1000,
+  categories: 24 * 60 * 60 * 1000
+};
+
+// 逐頁載入完整結果時每頁的數量與頁數上限
+const LIBRARY_PAGE_SIZE = 100;
+const LIBRARY_MAX_PAGES = 20;
+
+// 離線模擬登入的 token 前綴，格式為 mock_token_<使用者 id>_<時間>
+const MOCK_TOKEN_PREFIX = 'mock_token_';
+
+/**
+ * 離線模擬帳號的使用者 id - 以 FNV-1a 由使用者名稱產生，同一名稱每次登入都相同
+ */
+function mockUserId(username: string): number {
+  let hash = 0x811c9dc5;
+  const name = username.trim().toLowerCase();
+  for (let i = 0; i < name.length; i++) {
+    hash ^= name.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) + 1;
+}
+
+/**
+ * 建立離線模擬登入的回應
+ */
+function createMockAuthResponse(username: string): AuthResponse {
+  const userId = mockUserId(username);
+  return { user_id: userId, token: `${MOCK_TOKEN_PREFIX}${userId}_${Date.now()}` };
+}
+
+/**
+ * 從離線模擬 token 取出使用者 id，無法解析時回傳 null
+ */
+function parseMockToken(token: string): number | null {
+  if (!token.startsWith(MOCK_TOKEN_PREFIX)) return null;
+  const userId = Number(token.slice(MOCK_TOKEN_PREFIX.length).split('_')[0]);
+  return Number.isSafeInteger(userId) && userId > 0 ? userId : null;
+}
+
 /**
  * API 服務類別 - 處理所有與後端的通訊，支援本地資料 fallback
+ * 基礎 URL、逾時、預設標頭與攔截器皆來自執行時設定
  */
 export class ApiService {
+  private config: ApiConfig;
   private token: string | null = null;
   private localDataAdapter: LocalDataAdapter;
-  private useLocalData: boolean = false;
-
-  constructor() {
+  private dataSource: DataSource = 'api';
+  private cache: DataCache = new DataCache();
+  private revalidating: Set<string> = new Set();
+  private inFlight: Map<string, { promise: Promise<unknown>; controller: AbortController; consumers: number }> = new Map();
+  private userId: number | null = null;
+  private bookmarkOutbox: BookmarkOutbox;
+  private outboxFlush: Promise<void> | null = null;
+  // 所有已載入或快取的瑜伽動作的本地全文索引
+  readonly searchIndex: SearchIndex = new SearchIndex();
+
+  constructor(config: ApiConfig = loadApiConfig()) {
+    this.config = config;
     // 從 localStorage 載入已儲存的 token
     this.token = localStorage.getItem('auth_token');
+    const storedUserId = localStorage.getItem('auth_user_id');
+    this.userId = storedUserId ? Number(storedUserId) : null;
+    this.bookmarkOutbox = this.createBookmarkOutbox();
     this.localDataAdapter = new LocalDataAdapter();
   }
 
+  /**
+   * 取得目前的 API 基礎 URL
+   */
+  get baseUrl(): string {
+    return this.config.baseUrl;
+  }
+
+  /**
+   * 在執行時更新設定（例如切換到 staging 或本地 mock）
+   */
+  configure(config: Partial<ApiConfig>) {
+    this.config = {
+      ...this.config,
+      ...config,
+      baseUrl: (config.baseUrl ?? this.config.baseUrl).replace(/\/+$/, ''),
+      headers: { ...this.config.headers, ...config.headers },
+    };
+  }
+
+  /**
+   * 註冊請求攔截器
+   */
+  addRequestInterceptor(interceptor: RequestInterceptor) {
+    this.config.requestInterceptors.push(interceptor);
+  }
+
+  /**
+   * 註冊回應攔截器
+   */
+  addResponseInterceptor(interceptor: ResponseInterceptor) {
+    this.config.responseInterceptors.push(interceptor);
+  }
+
+  /**
+   * 目前資料來源的全文索引 - 使用本地資料時改用內建資料集的索引
+   */
+  get activeSearchIndex(): SearchIndex {
+    return this.dataSource === 'local' ? this.localDataAdapter.searchIndex : this.searchIndex;
+  }
+
+  /**
+   * 切換資料來源（API 或本地），改變時透過事件匯流排通知
+   */
+  private switchDataSource(source: DataSource) {
+    if (this.dataSource === source) return;
+
+    const previous = this.dataSource;
+    this.dataSource = source;
+    appEvents.emit('dataSource:changed', { source, previous });
+  }
+
   /**
    * 設定認證 token
    */
-  setToken(token: string) {
+  setToken(token: string, userId?: number) {
     this.token = token;
     localStorage.setItem('auth_token', token);
+    recordTokenIssuedAt();
+    if (userId !== undefined) {
+      this.setUserId(userId);
+    }
   }
 
   /**
-   * 清除認證 token
+   * 清除認證 token（待同步的收藏變更會保留，下次同一使用者登入時送出）
    */
   clearToken() {
     this.token = null;
     localStorage.removeItem('auth_token');
+    clearTokenIssuedAt();
+    this.setUserId(null);
+  }
+
+  /**
+   * 取得目前的認證 token
+   */
+  get authToken(): string | null {
+    return this.token;
+  }
+
+  /**
+   * 設定目前使用者，並切換到該使用者的收藏待同步佇列
+   */
+  private setUserId(userId: number | null) {
+    this.userId = userId;
+    if (userId !== null) {
+      localStorage.setItem('auth_user_id', String(userId));
+    } else {
+      localStorage.removeItem('auth_user_id');
+    }
+    this.bookmarkOutbox = this.createBookmarkOutbox();
+  }
+
+  /**
+   * 建立目前使用者的收藏待同步佇列
+   */
+  private createBookmarkOutbox(): BookmarkOutbox {
+    return new BookmarkOutbox(`bookmark_outbox_${this.userId ?? 'anonymous'}`);
+  }
+
+  /**
+   * 是否為離線模擬登入的工作階段（沒有伺服器帳號可同步）
+   */
+  private get isMockSession(): boolean {
+    return !!this.token && this.token.startsWith(MOCK_TOKEN_PREFIX);
   }
 
   /**
    * 取得認證標頭
    */
-  private getAuthHeaders(): HeadersInit {
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-    };
+  private getAuthHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { ...this.config.headers };
     
     if (this.token) {
       headers.Authorization = `Bearer ${this.token}`;
@@ -60,114 +236,401 @@ export class ApiService {
   }
 
   /**
-   * 處理 API 回應 - 支援新的資料結構
+   * 發送請求 - 套用預設標頭、逾時與攔截器，支援以 init.signal 取消
    */
-  private async handleResponse<T>(response: Response): Promise<T> {
-    const text = await response.text();
-    
+  private async request(endpoint: string, init: RequestInit = {}): Promise<Response> {
+    const externalSignal = init.signal;
+    if (externalSignal?.aborted) {
+      throw new RequestAbortedError(endpoint);
+    }
+
+    const url = `${this.config.baseUrl}${endpoint}`;
+    let options: RequestInit = {
+      ...init,
+      headers: { ...this.getAuthHeaders(), ...(init.headers as Record<string, string> | undefined) },
+    };
+
+    for (const interceptor of this.config.requestInterceptors) {
+      options = await interceptor(url, options);
+    }
+
+    // 逾時控制，並轉接外部的取消訊號
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeout);
+    const forwardAbort = () => controller.abort();
+    externalSignal?.addEventListener('abort', forwardAbort);
+
+    let response: Response;
     try {
-      const data = JSON.parse(text);
-      
-      // 檢查測試錯誤
-      if (data.error && data.details?.includes('testing purposes')) {
-        throw new Error(`測試錯誤: ${data.error}`);
-      }
-      
-      // 檢查其他錯誤
-      if (data.error) {
-        throw new Error(data.error);
-      }
-      
-      // 如果是瑜伽動作資料，進行格式轉換以確保向後相容
-      if (data.items && Array.isArray(data.items)) {
-        const convertedItems = data.items.map((item: any) => ({
-          ...item,
-          // 確保向後相容的欄位存在
-          imageUrl: item.image_url || item.imageUrl,
-          videoUrl: item.video_url || item.videoUrl,
-          level: item.difficulty || item.level,
-          keys: item.keys || '暫無要點資訊',
-          cautions: item.cautions || '暫無注意事項'
-        }));
-        
-        return {
-          ...data,
-          items: convertedItems
-        } as T;
+      response = await fetch(url, { ...options, signal: controller.signal });
+    } catch (error) {
+      if (externalSignal?.aborted) {
+        throw new RequestAbortedError(endpoint);
       }
-      
-      return data as T;
-      
-    } catch (parseError) {
+      throw new NetworkError(endpoint, error);
+    } finally {
+      clearTimeout(timer);
+      externalSignal?.removeEventListener('abort', forwardAbort);
+    }
+
+    for (const interceptor of this.config.responseInterceptors) {
+      response = await interceptor(response, url);
+    }
+
+    return response;
+  }
+
+  /**
+   * 組合查詢字串
+   */
+  private buildQueryString(params: QueryParams): string {
+    const queryString = new URLSearchParams();
+
+    if (params.page) queryString.append('page', params.page.toString());
+    if (params.limit) queryString.append('limit', params.limit.toString());
+    if (params.search) queryString.append('search', params.search);
+    if (params.category) queryString.append('category', params.category);
+    if (params.sort) queryString.append('sort', params.sort);
+    if (params.order) queryString.append('order', params.order);
+
+    return queryString.toString();
+  }
+
+  /**
+   * 處理 API 回應 - 錯誤時拋出對應的錯誤類別，資料結構由 validation 解碼器驗證
+   */
+  private async handleResponse<T = unknown>(response: Response, endpoint: string): Promise<T> {
+    const text = await response.text();
+
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch {
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        throw createApiError(endpoint, response.status, null);
       }
-      throw parseError;
+      throw new MalformedResponseError('無法解析伺服器回應', endpoint, response.status);
+    }
+
+    // 檢查錯誤（包含測試錯誤）
+    if (!response.ok || (data && data.error)) {
+      throw createApiError(endpoint, response.status, data);
     }
+
+    if (data === null || typeof data !== 'object') {
+      throw new MalformedResponseError('伺服器回應不是物件', endpoint, response.status);
+    }
+
+    return data as T;
   }
 
   /**
-   * 載入瑜伽動作資料 - 使用新的 API 結構
+   * 載入瑜伽動作資料 - 優先使用快取，過期時在背景更新；API 失敗時切換到本地資料
    */
-  async fetchYogaPoses(params: QueryParams = {}): Promise<ApiResponse<YogaPose>> {
+  async fetchYogaPoses(
+    params: QueryParams = {},
+    options: FetchOptions<ApiResponse<YogaPose>> = {}
+  ): Promise<ApiResponse<YogaPose>> {
+    // API 不支援的條件不送出，也不影響快取鍵；由呼叫端在本地過濾
+    const serverParams = toServerParams(params);
+    const cacheKey = `poses?${normalizeQueryKey(serverParams)}`;
+    const cached = await this.cache.get<ApiResponse<YogaPose>>(cacheKey);
+
+    if (options.signal?.aborted) {
+      throw new RequestAbortedError(RESOURCE_ENDPOINT);
+    }
+
+    if (cached) {
+      if (cached.stale) {
+        this.revalidate(cacheKey, CACHE_TTL.list, () => this.requestYogaPoses(serverParams), options.onRevalidate);
+      }
+      this.searchIndex.add(cached.value.items);
+      return { ...cached.value, cache: { cachedAt: cached.storedAt, stale: cached.stale } };
+    }
+
     // 優先使用真實 API，失敗時才使用本地資料
     try {
       console.log('嘗試從 API 獲取瑜伽動作:', params);
-      
-      const queryString = new URLSearchParams();
-      
-      if (params.page) queryString.append('page', params.page.toString());
-      if (params.limit) queryString.append('limit', params.limit.toString());
-      if (params.search) queryString.append('search', params.search);
-      if (params.category) queryString.append('category', params.category);
-      if (params.sort) queryString.append('sort', params.sort);
-      if (params.order) queryString.append('order', params.order);
-
-      const url = `${BASE_URL}${RESOURCE_ENDPOINT}?${queryString}`;
-      console.log('API 請求 URL:', url);
-      
-      // 使用重試機制
-      const response = await this.fetchWithRetry(url, {
-        method: 'GET',
-        headers: this.getAuthHeaders(),
-      });
-
-      const data = await this.handleResponse<ApiResponse<YogaPose>>(response);
+      // 相同查詢正在進行中時共用同一個請求
+      const data = await this.dedupe(cacheKey, (signal) => this.requestYogaPoses(serverParams, signal), options.signal);
       console.log('API 回應成功，項目數量:', data.items?.length || 0);
+      await this.cache.set(cacheKey, data, CACHE_TTL.list);
+      this.switchDataSource('api');
       
       return data;
       
     } catch (error) {
+      if (error instanceof RequestAbortedError) throw error;
       console.warn('API 載入失敗，切換到本地資料:', error);
-      this.useLocalData = true;
+      this.switchDataSource('local');
+      // 本地資料支援所有過濾條件
+      // 本地範例資料不寫入共用搜尋索引，避免以相同 id 覆蓋伺服器上的動作
       return this.localDataAdapter.getYogaPoses(params);
     }
   }
 
   /**
-   * 重試機制的 fetch
+   * 合併相同的進行中請求 - 所有呼叫端都取消後才真正中斷底層請求
+   */
+  private dedupe<T>(key: string, loader: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    let entry = this.inFlight.get(key);
+
+    if (!entry) {
+      const controller = new AbortController();
+      const created: { promise: Promise<unknown>; controller: AbortController; consumers: number } = {
+        controller,
+        consumers: 0,
+        promise: loader(controller.signal).finally(() => {
+          if (this.inFlight.get(key) === created) this.inFlight.delete(key);
+        })
+      };
+      entry = created;
+      this.inFlight.set(key, entry);
+    }
+
+    const shared = entry;
+    shared.consumers++;
+    const promise = shared.promise as Promise<T>;
+
+    if (!signal) return promise;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        shared.consumers--;
+        if (shared.consumers === 0) shared.controller.abort();
+        reject(new RequestAbortedError(key));
+      };
+
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  /**
+   * 在背景重新載入過期的快取資料，成功後通知呼叫端
    */
-  private async fetchWithRetry(url: string, options: RequestInit, retries: number = 3): Promise<Response> {
+  private revalidate<T>(cacheKey: string, ttl: number, loader: () => Promise<T>, onRevalidate?: (value: T) => void) {
+    if (this.revalidating.has(cacheKey)) return;
+    this.revalidating.add(cacheKey);
+
+    loader()
+      .then(async (value) => {
+        await this.cache.set(cacheKey, value, ttl);
+        onRevalidate?.(value);
+      })
+      .catch((error) => {
+        console.warn('背景更新失敗，繼續使用快取資料:', error);
+      })
+      .finally(() => {
+        this.revalidating.delete(cacheKey);
+      });
+  }
+
+  /**
+   * 清除所有快取資料
+   */
+  async clearCache() {
+    await this.cache.clear();
+  }
+
+  /**
+   * 直接向 API 請求瑜伽動作列表（不使用本地 fallback）
+   */
+  async requestYogaPoses(params: QueryParams = {}, signal?: AbortSignal): Promise<ApiResponse<YogaPose>> {
+    const endpoint = `${RESOURCE_ENDPOINT}?${this.buildQueryString(params)}`;
+    console.log('API 請求:', endpoint);
+
+    // 使用重試機制
+    const response = await this.fetchWithRetry(endpoint, { method: 'GET', signal });
+    const data = await this.handleResponse(response, endpoint);
+
+    const list = decodeYogaPoseList(data, endpoint, params);
+    this.searchIndex.add(list.items);
+    return list;
+  }
+
+  /**
+   * 獲取單個瑜伽動作 - 優先使用快取，API 失敗時切換到本地資料
+   * 伺服器回應 404 時回傳 null；本地資料也沒有時拋出原本的錯誤
+   */
+  async getYogaPose(id: number, options: FetchOptions<YogaPose> = {}): Promise<YogaPose | null> {
+    const cacheKey = `pose/${id}`;
+    const cached = await this.cache.get<YogaPose>(cacheKey);
+
+    if (cached) {
+      if (cached.stale) {
+        this.revalidate(cacheKey, CACHE_TTL.pose, () => this.requestYogaPose(id), options.onRevalidate);
+      }
+      this.searchIndex.add([cached.value]);
+      return cached.value;
+    }
+
+    try {
+      const pose = await this.requestYogaPose(id, options.signal);
+      await this.cache.set(cacheKey, pose, CACHE_TTL.pose);
+      return pose;
+    } catch (error) {
+      if (error instanceof RequestAbortedError) throw error;
+      if (error instanceof NotFoundError) return null;
+
+      console.warn(`獲取瑜伽動作 ${id} 失敗，切換到本地資料:`, error);
+      const local = await this.localDataAdapter.getYogaPose(id);
+      if (!local) throw error;
+      return local;
+    }
+  }
+
+  /**
+   * 依 id 載入多個瑜伽動作 - 同時最多 concurrency 個請求，每個動作都會寫入快取
+   * 不存在的動作為 null；其他原因失敗的 id 不會出現在結果中，可稍後重試
+   */
+  async getYogaPosesByIds(
+    ids: number[],
+    options: { signal?: AbortSignal; concurrency?: number } = {}
+  ): Promise<Map<number, YogaPose | null>> {
+    const results = new Map<number, YogaPose | null>();
+    const queue = [...new Set(ids)];
+
+    const worker = async () => {
+      while (queue.length > 0) {
+        if (options.signal?.aborted) throw new RequestAbortedError(RESOURCE_ENDPOINT);
+        const id = queue.shift()!;
+
+        try {
+          results.set(id, await this.getYogaPose(id, { signal: options.signal }));
+        } catch (error) {
+          if (error instanceof RequestAbortedError) throw error;
+          console.warn(`載入瑜伽動作 ${id} 失敗:`, error);
+        }
+      }
+    };
+
+    const concurrency = Math.max(1, options.concurrency || 4);
+    await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+    return results;
+  }
+
+  /**
+   * 直接向 API 請求單個瑜伽動作（不使用本地 fallback）
+   */
+  async requestYogaPose(id: number, signal?: AbortSignal): Promise<YogaPose> {
+    const endpoint = `${RESOURCE_ENDPOINT}/${id}`;
+    const response = await this.fetchWithRetry(endpoint, { method: 'GET', signal });
+    const data = await this.handleResponse(response, endpoint);
+    const pose = decodeYogaPose(data, endpoint);
+    this.searchIndex.add([pose]);
+    return pose;
+  }
+
+  /**
+   * 以 IndexedDB 中所有快取的瑜伽動作建立索引，讓離線時也能搜尋先前看過的資料
+   */
+  async warmSearchIndex() {
+    const [lists, poses] = await Promise.all([
+      this.cache.values<ApiResponse<YogaPose>>('poses?'),
+      this.cache.values<YogaPose>('pose/')
+    ]);
+
+    lists.forEach(list => this.searchIndex.add(list.items || []));
+    this.searchIndex.add(poses);
+    console.log('本地搜尋索引已建立，動作數量:', this.searchIndex.size);
+  }
+
+  /**
+   * 逐頁載入符合伺服器條件的所有瑜伽動作，合併為單一回應（使用列表快取，API 失敗時使用本地資料）
+   * 任一頁來自過期快取時，回應的快取資訊以最舊的一頁為準；所有過期頁面更新後重新合併並呼叫 onRevalidate
+   */
+  async fetchAllYogaPoses(
+    params: QueryParams = {},
+    options: FetchOptions<ApiResponse<YogaPose>> = {}
+  ): Promise<ApiResponse<YogaPose>> {
+    const poses = new Map<number, YogaPose>();
+    let cache: CacheInfo | undefined;
+    let staleCount = 0;
+
+    const onPageRevalidated = () => {
+      if (--staleCount > 0 || !options.onRevalidate) return;
+      this.fetchAllYogaPoses(params)
+        .then(options.onRevalidate)
+        .catch(error => console.warn('重新合併完整結果失敗:', error));
+    };
+
+    for (let page = 1; page <= LIBRARY_MAX_PAGES; page++) {
+      const response = await this.fetchYogaPoses(
+        { ...params, page, limit: LIBRARY_PAGE_SIZE },
+        { signal: options.signal, onRevalidate: onPageRevalidated }
+      );
+      response.items.forEach(pose => poses.set(pose.id, pose));
+      if (response.cache?.stale) {
+        staleCount++;
+        if (!cache || response.cache.cachedAt < cache.cachedAt) cache = response.cache;
+      }
+      if (response.items.length < LIBRARY_PAGE_SIZE || poses.size >= response.pagination.total) break;
+    }
+
+    const items = [...poses.values()];
+    return {
+      items,
+      pagination: { page: 1, limit: LIBRARY_PAGE_SIZE, total: items.length },
+      ...(cache ? { cache } : {})
+    };
+  }
+
+  /**
+   * 載入完整的瑜伽動作庫
+   */
+  async getAllYogaPoses(signal?: AbortSignal): Promise<YogaPose[]> {
+    return (await this.fetchAllYogaPoses({}, { signal })).items;
+  }
+
+  /**
+   * 取得過濾條件的可選值（分類、難度、標籤、導師、最長時長）
+   */
+  async getFilterOptions(): Promise<FilterOptions> {
+    const response = await this.fetchYogaPoses({ page: 1, limit: 100 });
+    return extractFilterOptions(response.items);
+  }
+
+  /**
+   * 直接向 API 請求分類列表（不使用本地 fallback）
+   */
+  async requestCategories(): Promise<string[]> {
+    const endpoint = `${RESOURCE_ENDPOINT}/categories`;
+    const response = await this.fetchWithRetry(endpoint, { method: 'GET' });
+    const data = await this.handleResponse(response, endpoint);
+    return decodeCategoriesResponse(data, endpoint).categories;
+  }
+
+  /**
+   * 重試機制的 fetch - 只重試網路錯誤與伺服器暫時性錯誤
+   */
+  private async fetchWithRetry(endpoint: string, options: RequestInit, retries: number = this.config.retries): Promise<Response> {
+    let lastError: ApiRequestError | null = null;
+
     for (let i = 0; i < retries; i++) {
       try {
-        const response = await fetch(url, options);
+        const response = await this.request(endpoint, options);
         
-        // 檢查是否是測試錯誤
-        if (!response.ok) {
-          const text = await response.text();
-          try {
-            const data = JSON.parse(text);
-            if (data.error && data.details?.includes('testing purposes')) {
-              console.warn(`收到測試錯誤 (嘗試 ${i + 1}/${retries}):`, data.error);
-              if (i < retries - 1) {
-                await new Promise(resolve => setTimeout(resolve, 1000 * (i + 1)));
-                continue;
-              }
-            }
-          } catch (parseError) {
-            // JSON 解析失敗，正常處理 HTTP 錯誤
-          }
-          
+        if (response.ok) {
+          return response;
+        }
+
+        // 檢查錯誤是否可重試
+        const text = await response.text();
+        let data: any = null;
+        try {
+          data = JSON.parse(text);
+        } catch {
+          // JSON 解析失敗，正常處理 HTTP 錯誤
+        }
+
+        const error = createApiError(endpoint, response.status, data);
+        if (!error.retryable) {
           // 重新建立 Response 物件以供後續處理
           return new Response(text, {
             status: response.status,
@@ -175,46 +638,44 @@ export class ApiService {
             headers: response.headers
           });
         }
-        
-        return response;
+        throw error;
         
       } catch (error) {
-        console.warn(`請求失敗 (嘗試 ${i + 1}/${retries}):`, error);
-        if (i === retries - 1) {
+        if (!(error instanceof ApiRequestError) || !error.retryable) {
           throw error;
         }
-        await new Promise(resolve => setTimeout(resolve, 1000 * (i + 1)));
+        lastError = error;
+        console.warn(`請求失敗 (嘗試 ${i + 1}/${retries}):`, error.message);
+        if (i < retries - 1) {
+          await new Promise(resolve => setTimeout(resolve, this.config.retryDelay * (i + 1)));
+        }
       }
     }
     
-    throw new Error('所有重試都失敗了');
+    throw lastError || new NetworkError(endpoint);
   }
 
   /**
    * 使用者註冊
    */
   async signup(credentials: AuthRequest): Promise<AuthResponse> {
-    if (this.useLocalData) {
-      // 本地模擬註冊
-      const mockResponse: AuthResponse = {
-        user_id: Date.now(),
-        token: 'mock_token_' + Date.now()
-      };
+    if (this.dataSource === 'local') {
+      // 本地模擬註冊 - 使用者 id 由名稱決定，重新整理後 checkAuth 仍取得相同的 id
       console.log('本地模擬註冊成功');
-      return mockResponse;
+      return createMockAuthResponse(credentials.username);
     }
 
     try {
-      const response = await fetch(`${BASE_URL}/auth/signup`, {
+      const response = await this.request('/auth/signup', {
         method: 'POST',
-        headers: this.getAuthHeaders(),
         body: JSON.stringify(credentials),
       });
 
-      return this.handleResponse<AuthResponse>(response);
+      return decodeAuthResponse(await this.handleResponse(response, '/auth/signup'), '/auth/signup');
     } catch (error) {
+      if (!(error instanceof NetworkError)) throw error;
       console.warn('API 註冊失敗，使用本地模擬');
-      this.useLocalData = true;
+      this.switchDataSource('local');
       return this.signup(credentials);
     }
   }
@@ -223,27 +684,23 @@ export class ApiService {
    * 使用者登入
    */
   async login(credentials: AuthRequest): Promise<AuthResponse> {
-    if (this.useLocalData) {
-      // 本地模擬登入
-      const mockResponse: AuthResponse = {
-        user_id: Date.now(),
-        token: 'mock_token_' + Date.now()
-      };
+    if (this.dataSource === 'local') {
+      // 本地模擬登入 - 使用者 id 由名稱決定，收藏集、序列與練習紀錄不會因重新登入而遺失
       console.log('本地模擬登入成功');
-      return mockResponse;
+      return createMockAuthResponse(credentials.username);
     }
 
     try {
-      const response = await fetch(`${BASE_URL}/auth/login`, {
+      const response = await this.request('/auth/login', {
         method: 'POST',
-        headers: this.getAuthHeaders(),
         body: JSON.stringify(credentials),
       });
 
-      return this.handleResponse<AuthResponse>(response);
+      return decodeAuthResponse(await this.handleResponse(response, '/auth/login'), '/auth/login');
     } catch (error) {
+      if (!(error instanceof NetworkError)) throw error;
       console.warn('API 登入失敗，使用本地模擬');
-      this.useLocalData = true;
+      this.switchDataSource('local');
       return this.login(credentials);
     }
   }
@@ -256,30 +713,35 @@ export class ApiService {
       return { user_id: null };
     }
 
-    if (this.useLocalData) {
-      // 本地模擬檢查
-      return { user_id: this.token.startsWith('mock_token_') ? 12345 : null };
+    // 模擬登入的 token 沒有伺服器帳號，連線恢復後也在本地檢查
+    if (this.dataSource === 'local' || this.isMockSession) {
+      // 本地模擬檢查 - 使用者 id 與登入時相同（記錄在 token 中）
+      return { user_id: parseMockToken(this.token) };
     }
 
     try {
-      const response = await fetch(`${BASE_URL}/auth/check`, {
+      const response = await this.request('/auth/check', {
         method: 'GET',
-        headers: this.getAuthHeaders(),
       });
 
-      return this.handleResponse<{ user_id: number | null }>(response);
+      const result = await this.handleResponse<{ user_id: number | null }>(response, '/auth/check');
+      if (typeof result.user_id === 'number' && result.user_id !== this.userId) {
+        this.setUserId(result.user_id);
+      }
+      return result;
     } catch (error) {
+      if (!(error instanceof NetworkError)) throw error;
       console.warn('API 檢查認證失敗，使用本地模擬');
-      this.useLocalData = true;
+      this.switchDataSource('local');
       return this.checkAuth();
     }
   }
 
   /**
-   * 收藏項目
+   * 收藏項目 - 離線時加入待同步佇列
    */
   async addBookmark(itemId: number): Promise<BookmarkResponse> {
-    if (this.useLocalData) {
+    if (this.isMockSession) {
       // 本地模擬收藏
       const bookmarks = this.getLocalBookmarks();
       if (!bookmarks.includes(itemId)) {
@@ -290,25 +752,14 @@ export class ApiService {
       return { message: 'already bookmarked' };
     }
 
-    try {
-      const response = await fetch(`${BASE_URL}/bookmarks/${itemId}`, {
-        method: 'POST',
-        headers: this.getAuthHeaders(),
-      });
-
-      return this.handleResponse<BookmarkResponse>(response);
-    } catch (error) {
-      console.warn('API 收藏失敗，使用本地模擬');
-      this.useLocalData = true;
-      return this.addBookmark(itemId);
-    }
+    return this.mutateBookmark({ itemId, action: 'add', queuedAt: Date.now() });
   }
 
   /**
-   * 取消收藏項目
+   * 取消收藏項目 - 離線時加入待同步佇列
    */
   async removeBookmark(itemId: number): Promise<BookmarkResponse> {
-    if (this.useLocalData) {
+    if (this.isMockSession) {
       // 本地模擬取消收藏
       const bookmarks = this.getLocalBookmarks();
       const index = bookmarks.indexOf(itemId);
@@ -320,40 +771,129 @@ export class ApiService {
       return { message: 'already deleted' };
     }
 
-    try {
-      const response = await fetch(`${BASE_URL}/bookmarks/${itemId}`, {
-        method: 'DELETE',
-        headers: this.getAuthHeaders(),
-      });
+    return this.mutateBookmark({ itemId, action: 'remove', queuedAt: Date.now() });
+  }
+
+  /**
+   * 送出收藏變更 - 佇列中已有待同步項目時排在後面，確保順序正確
+   */
+  private async mutateBookmark(mutation: BookmarkMutation): Promise<BookmarkResponse> {
+    const pendingResponse: BookmarkResponse = {
+      message: mutation.action === 'add' ? 'newly bookmarked' : 'newly deleted',
+      pending: true
+    };
 
-      return this.handleResponse<BookmarkResponse>(response);
+    if (this.bookmarkOutbox.size > 0) {
+      this.bookmarkOutbox.enqueue(mutation.itemId, mutation.action);
+      this.flushBookmarkOutbox();
+      return pendingResponse;
+    }
+
+    try {
+      return await this.sendBookmarkMutation(mutation);
     } catch (error) {
-      console.warn('API 取消收藏失敗，使用本地模擬');
-      this.useLocalData = true;
-      return this.removeBookmark(itemId);
+      if (!(error instanceof NetworkError)) throw error;
+      console.warn('網路中斷，收藏變更已加入待同步佇列:', mutation);
+      this.bookmarkOutbox.enqueue(mutation.itemId, mutation.action);
+      return pendingResponse;
     }
   }
 
   /**
-   * 取得收藏列表
+   * 將單筆收藏變更送到伺服器
+   */
+  private async sendBookmarkMutation(mutation: BookmarkMutation): Promise<BookmarkResponse> {
+    const endpoint = `/bookmarks/${mutation.itemId}`;
+    const response = await this.request(endpoint, {
+      method: mutation.action === 'add' ? 'POST' : 'DELETE',
+    });
+
+    return this.handleResponse<BookmarkResponse>(response, endpoint);
+  }
+
+  /**
+   * 依序送出待同步的收藏變更，直到佇列清空（送出期間新加入的變更也會送出）
+   * 網路或認證錯誤時停止，其他錯誤則丟棄該筆；有處理任何變更時發出 bookmarks:flushed 事件
+   */
+  private flushBookmarkOutbox(): Promise<void> {
+    if (this.outboxFlush) return this.outboxFlush;
+
+    const outbox = this.bookmarkOutbox;
+    const sentIds: number[] = [];
+    const rejected: BookmarkMutation[] = [];
+
+    this.outboxFlush = (async () => {
+      let mutation: BookmarkMutation | undefined;
+      while ((mutation = outbox.list()[0])) {
+        outbox.setInFlight(mutation);
+        try {
+          await this.sendBookmarkMutation(mutation);
+          outbox.remove(mutation);
+          sentIds.push(mutation.itemId);
+        } catch (error) {
+          if (error instanceof NetworkError || error instanceof AuthenticationError ||
+              (error instanceof ApiRequestError && error.retryable)) {
+            console.warn('收藏同步暫停，稍後重試:', error);
+            break;
+          }
+          console.warn('收藏變更被伺服器拒絕，已從佇列移除:', mutation, error);
+          outbox.remove(mutation);
+          rejected.push(mutation);
+        } finally {
+          outbox.setInFlight(null);
+        }
+      }
+    })().finally(() => {
+      this.outboxFlush = null;
+      if (sentIds.length > 0 || rejected.length > 0) {
+        appEvents.emit('bookmarks:flushed', { sentIds, rejected });
+      }
+    });
+
+    return this.outboxFlush;
+  }
+
+  /**
+   * 同步收藏 - 送出待同步變更後，以伺服器的收藏列表為準重新整理
+   */
+  async syncBookmarks(): Promise<BookmarkListResponse> {
+    if (!this.isMockSession && this.token) {
+      await this.flushBookmarkOutbox();
+    }
+    return this.getBookmarks();
+  }
+
+  /**
+   * 取得尚未同步到伺服器的收藏項目 id
+   */
+  getPendingBookmarkIds(): Set<number> {
+    return this.isMockSession ? new Set() : this.bookmarkOutbox.pendingIds();
+  }
+
+  /**
+   * 取得收藏列表 - 包含尚未同步的變更；離線時使用最後一次的伺服器結果
    */
   async getBookmarks(): Promise<BookmarkListResponse> {
-    if (this.useLocalData) {
+    if (this.isMockSession) {
       // 本地模擬收藏列表
       return { item_ids: this.getLocalBookmarks() };
     }
 
+    const snapshotKey = `bookmarks_snapshot_${this.userId ?? 'anonymous'}`;
+
     try {
-      const response = await fetch(`${BASE_URL}/bookmarks`, {
+      const response = await this.request('/bookmarks', {
         method: 'GET',
-        headers: this.getAuthHeaders(),
       });
 
-      return this.handleResponse<BookmarkListResponse>(response);
+      const data = decodeBookmarkListResponse(await this.handleResponse(response, '/bookmarks'), '/bookmarks');
+      localStorage.setItem(snapshotKey, JSON.stringify(data.item_ids));
+      return { item_ids: this.bookmarkOutbox.applyTo(data.item_ids) };
     } catch (error) {
-      console.warn('API 取得收藏列表失敗，使用本地模擬');
-      this.useLocalData = true;
-      return this.getBookmarks();
+      if (!(error instanceof NetworkError)) throw error;
+      console.warn('API 取得收藏列表失敗，使用最後一次同步的結果');
+      const snapshot = this.readIdList(snapshotKey);
+      return { item_ids: this.bookmarkOutbox.applyTo(snapshot) };
     }
   }
 
@@ -361,8 +901,15 @@ export class ApiService {
    * 取得本地收藏列表
    */
   private getLocalBookmarks(): number[] {
+    return this.readIdList('local_bookmarks');
+  }
+
+  /**
+   * 從 localStorage 讀取 id 列表
+   */
+  private readIdList(key: string): number[] {
     try {
-      const stored = localStorage.getItem('local_bookmarks');
+      const stored = localStorage.getItem(key);
       return stored ? JSON.parse(stored) : [];
     } catch {
       return [];
@@ -370,23 +917,29 @@ export class ApiService {
   }
 
   /**
-   * 獲取所有分類
+   * 獲取所有分類 - 優先使用快取
    */
-  async getCategories(): Promise<string[]> {
-    if (this.useLocalData) {
+  async getCategories(onRevalidate?: (categories: string[]) => void): Promise<string[]> {
+    const cacheKey = 'categories';
+    const cached = await this.cache.get<string[]>(cacheKey);
+
+    if (cached) {
+      if (cached.stale) {
+        this.revalidate(cacheKey, CACHE_TTL.categories, () => this.requestCategories(), onRevalidate);
+      }
+      return cached.value;
+    }
+
+    if (this.dataSource === 'local') {
       console.log('使用本地資料獲取分類');
       return this.localDataAdapter.getCategories();
     }
 
     try {
       // 先嘗試從專門的分類 API 獲取
-      const response = await this.fetchWithRetry(`${BASE_URL}/yoga-poses/categories`, {
-        method: 'GET',
-        headers: this.getAuthHeaders(),
-      });
-      
-      const data = await this.handleResponse<{ categories: string[] }>(response);
-      return data.categories || [];
+      const categories = await this.requestCategories();
+      await this.cache.set(cacheKey, categories, CACHE_TTL.categories);
+      return categories;
       
     } catch (error) {
       console.warn('獲取分類 API 失敗，嘗試從瑜伽動作列表提取分類:', error);
@@ -398,9 +951,12 @@ export class ApiService {
         return categories.filter(Boolean);
       } catch (listError) {
         console.warn('從瑜伽動作列表提取分類也失敗，切換到本地資料:', listError);
-        this.useLocalData = true;
+        this.switchDataSource('local');
         return this.localDataAdapter.getCategories();
       }
     }
   }
-}
\ No newline at end of file
+}
+
+// 共用的 API 客戶端實例
+export const apiService = new ApiService();
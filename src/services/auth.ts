@@ -1,5 +1,7 @@
 import { ApiService } from './api.js';
 import { AuthRequest } from '../types/index.js';
+import { AuthenticationError, ValidationError, describeError } from './errors.js';
+import { appEvents } from './eventBus.js';
 
 /**
  * 認證管理器 - 處理使用者登入、註冊和登出
@@ -124,7 +126,7 @@ export class AuthManager {
       }
 
       // 儲存 token
-      this.apiService.setToken(result.token);
+      this.apiService.setToken(result.token, result.user_id);
       
       // 成功訊息
       this.showSuccessMessage(this.isLoginMode ? '登入成功！' : '註冊成功！');
@@ -139,10 +141,7 @@ export class AuthManager {
       this.onAuthSuccess(result.user_id);
 
     } catch (error) {
-      this.showErrorMessage(
-        error instanceof Error ? error.message : 
-        this.isLoginMode ? '登入失敗' : '註冊失敗'
-      );
+      this.showErrorMessage(this.describeAuthError(error));
     } finally {
       this.setAuthLoading(false);
     }
@@ -184,6 +183,20 @@ export class AuthManager {
     if (passwordInput) passwordInput.value = '';
   }
 
+  /**
+   * 將認證錯誤轉換為使用者訊息
+   */
+  private describeAuthError(error: unknown): string {
+    if (error instanceof AuthenticationError) {
+      // 登入時的 401 代表帳號或密碼錯誤，而非 token 失效
+      return this.isLoginMode ? '使用者名稱或密碼錯誤' : error.message;
+    }
+    if (error instanceof ValidationError) {
+      return this.isLoginMode ? error.message : `註冊失敗: ${error.message}`;
+    }
+    return describeError(error, this.isLoginMode ? '登入失敗' : '註冊失敗');
+  }
+
   /**
    * 顯示錯誤訊息
    */
@@ -204,11 +217,8 @@ export class AuthManager {
    * 認證成功回調
    */
   private onAuthSuccess(userId: number) {
-    // 觸發自定義事件，讓主應用程式知道認證狀態改變
-    const event = new CustomEvent('authSuccess', { 
-      detail: { userId } 
-    });
-    document.dispatchEvent(event);
+    // 透過事件匯流排通知主應用程式認證狀態改變
+    appEvents.emit('auth:login', { userId });
   }
 
   /**
@@ -0,0 +1,121 @@
+import { BookmarkMutation } from '../types/index.js';
+
+/**
+ * 收藏變更待同步佇列 - 離線時暫存收藏/取消收藏，恢復連線後依序送出
+ * 使用 localStorage 持久化，重新整理或登出後仍會保留
+ */
+export class BookmarkOutbox {
+  private storageKey: string;
+  // 正在送出的變更（以 queuedAt 識別），送出中的變更不可被抵銷
+  private inFlight: BookmarkMutation | null = null;
+
+  constructor(storageKey: string) {
+    this.storageKey = storageKey;
+  }
+
+  /**
+   * 取得所有待同步的變更（依加入順序）
+   */
+  list(): BookmarkMutation[] {
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * 待同步變更數量
+   */
+  get size(): number {
+    return this.list().length;
+  }
+
+  /**
+   * 加入變更 - 同一項目的相反操作會互相抵銷，重複操作只保留一筆
+   * 送出中的變更不會被抵銷，相反操作排在其後送出
+   */
+  enqueue(itemId: number, action: BookmarkMutation['action']) {
+    const mutations = this.list();
+    let lastIndex = -1;
+    mutations.forEach((mutation, index) => {
+      if (mutation.itemId === itemId) lastIndex = index;
+    });
+    const last = lastIndex > -1 ? mutations[lastIndex] : null;
+
+    if (last && last.action === action) return;
+
+    if (last && !this.isInFlight(last)) {
+      // 收藏後又取消（或相反），伺服器狀態不需改變
+      mutations.splice(lastIndex, 1);
+    } else {
+      mutations.push({ itemId, action, queuedAt: Date.now() });
+    }
+
+    this.save(mutations);
+  }
+
+  /**
+   * 標記正在送出的變更，送出結束後傳入 null
+   */
+  setInFlight(mutation: BookmarkMutation | null) {
+    this.inFlight = mutation;
+  }
+
+  /**
+   * 移除已處理的變更
+   */
+  remove(mutation: BookmarkMutation) {
+    this.save(this.list().filter(entry => !this.isSame(entry, mutation)));
+  }
+
+  /**
+   * 是否為正在送出的變更
+   */
+  private isInFlight(mutation: BookmarkMutation): boolean {
+    return this.inFlight !== null && this.isSame(mutation, this.inFlight);
+  }
+
+  /**
+   * 是否為同一筆變更
+   */
+  private isSame(a: BookmarkMutation, b: BookmarkMutation): boolean {
+    return a.itemId === b.itemId && a.action === b.action && a.queuedAt === b.queuedAt;
+  }
+
+  /**
+   * 取得有待同步變更的項目 id
+   */
+  pendingIds(): Set<number> {
+    return new Set(this.list().map(mutation => mutation.itemId));
+  }
+
+  /**
+   * 將待同步變更套用到收藏列表上，得到使用者看到的收藏狀態
+   */
+  applyTo(itemIds: number[]): number[] {
+    const result = new Set(itemIds);
+
+    this.list().forEach(mutation => {
+      if (mutation.action === 'add') {
+        result.add(mutation.itemId);
+      } else {
+        result.delete(mutation.itemId);
+      }
+    });
+
+    return [...result];
+  }
+
+  /**
+   * 儲存佇列
+   */
+  private save(mutations: BookmarkMutation[]) {
+    if (mutations.length > 0) {
+      localStorage.setItem(this.storageKey, JSON.stringify(mutations));
+    } else {
+      localStorage.removeItem(this.storageKey);
+    }
+  }
+}
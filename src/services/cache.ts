@@ -0,0 +1,262 @@
+import { QueryParams } from '../types/index.js';
+
+// IndexedDB 設定
+const DB_NAME = 'yoga-poses-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+/**
+ * 快取項目
+ */
+interface CacheEntry<T = unknown> {
+  key: string;
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+  lastAccess: number;
+}
+
+/**
+ * 快取查詢結果
+ */
+export interface CacheHit<T> {
+  value: T;
+  storedAt: number;
+  stale: boolean;
+}
+
+/**
+ * 快取選項
+ */
+export interface CacheOptions {
+  maxEntries: number;
+  maxAge: number;
+}
+
+const DEFAULT_CACHE_OPTIONS: CacheOptions = {
+  maxEntries: 200,
+  maxAge: 7 * 24 * 60 * 60 * 1000 // 7 天後完全移除
+};
+
+/**
+ * 將查詢參數正規化為快取鍵 - 忽略空值並依鍵名排序，陣列值排序後以逗號合併
+ */
+export function normalizeQueryKey(params: QueryParams): string {
+  const entries = Object.entries(params)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([key, value]) => [key, Array.isArray(value) ? [...value].sort().join(',') : value] as const)
+    .map(([key, value]) => [key, typeof value === 'string' ? value.trim() : value] as const)
+    .filter(([, value]) => value !== '')
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  return new URLSearchParams(entries.map(([key, value]) => [key, String(value)])).toString();
+}
+
+/**
+ * 持久化資料快取 - 使用 IndexedDB 儲存，不支援時退回記憶體
+ * 超過 TTL 的資料標記為過期（stale）但仍可使用，超過 maxAge 才會移除
+ */
+export class DataCache {
+  private options: CacheOptions;
+  private dbPromise: Promise<IDBDatabase | null>;
+  private memory: Map<string, CacheEntry> = new Map();
+
+  constructor(options: Partial<CacheOptions> = {}) {
+    this.options = { ...DEFAULT_CACHE_OPTIONS, ...options };
+    this.dbPromise = this.openDatabase();
+  }
+
+  /**
+   * 開啟 IndexedDB，失敗時回傳 null 並改用記憶體快取
+   */
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.resolve(null);
+    }
+
+    return new Promise((resolve) => {
+      try {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+            store.createIndex('lastAccess', 'lastAccess');
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('無法開啟 IndexedDB，改用記憶體快取:', request.error);
+          resolve(null);
+        };
+      } catch (error) {
+        console.warn('無法開啟 IndexedDB，改用記憶體快取:', error);
+        resolve(null);
+      }
+    });
+  }
+
+  /**
+   * 執行 IndexedDB 交易
+   */
+  private async withStore<T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T> | void
+  ): Promise<T | undefined> {
+    const db = await this.dbPromise;
+    if (!db) return undefined;
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = action(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(transaction.error);
+      // 超過配額等原因中止的交易不一定觸發 onerror
+      transaction.onabort = () => reject(transaction.error ?? new DOMException('交易已中止', 'AbortError'));
+    });
+  }
+
+  /**
+   * 讀取快取 - 不存在或超過 maxAge 時回傳 null
+   */
+  async get<T>(key: string): Promise<CacheHit<T> | null> {
+    let entry: CacheEntry<T> | undefined;
+
+    try {
+      const db = await this.dbPromise;
+      entry = db
+        ? await this.withStore<CacheEntry<T>>('readonly', store => store.get(key))
+        : this.memory.get(key) as CacheEntry<T> | undefined;
+    } catch (error) {
+      console.warn('讀取快取失敗:', error);
+      return null;
+    }
+
+    if (!entry) return null;
+
+    const now = Date.now();
+    if (now - entry.storedAt > this.options.maxAge) {
+      await this.delete(key);
+      return null;
+    }
+
+    // 更新最後存取時間，供容量上限淘汰使用
+    await this.put({ ...entry, lastAccess: now });
+
+    return {
+      value: entry.value,
+      storedAt: entry.storedAt,
+      stale: now > entry.expiresAt
+    };
+  }
+
+  /**
+   * 讀取鍵名以 prefix 開頭的所有快取值（不更新存取時間），用於離線建立索引
+   */
+  async values<T>(prefix: string = ''): Promise<T[]> {
+    let entries: CacheEntry<T>[] | undefined;
+
+    try {
+      const db = await this.dbPromise;
+      entries = db
+        ? await this.withStore<CacheEntry<T>[]>('readonly', store => store.getAll() as IDBRequest<CacheEntry<T>[]>)
+        : [...this.memory.values()] as CacheEntry<T>[];
+    } catch (error) {
+      console.warn('讀取快取失敗:', error);
+      return [];
+    }
+
+    const now = Date.now();
+    return (entries || [])
+      .filter(entry => entry.key.startsWith(prefix) && now - entry.storedAt <= this.options.maxAge)
+      .map(entry => entry.value);
+  }
+
+  /**
+   * 寫入快取
+   */
+  async set<T>(key: string, value: T, ttl: number) {
+    const now = Date.now();
+    await this.put({ key, value, storedAt: now, expiresAt: now + ttl, lastAccess: now });
+    await this.enforceLimit();
+  }
+
+  /**
+   * 刪除快取項目
+   */
+  async delete(key: string) {
+    this.memory.delete(key);
+    try {
+      await this.withStore('readwrite', store => store.delete(key));
+    } catch (error) {
+      console.warn('刪除快取失敗:', error);
+    }
+  }
+
+  /**
+   * 清除所有快取
+   */
+  async clear() {
+    this.memory.clear();
+    try {
+      await this.withStore('readwrite', store => store.clear());
+    } catch (error) {
+      console.warn('清除快取失敗:', error);
+    }
+  }
+
+  /**
+   * 儲存項目到 IndexedDB 或記憶體
+   */
+  private async put(entry: CacheEntry) {
+    try {
+      const db = await this.dbPromise;
+      if (db) {
+        await this.withStore('readwrite', store => store.put(entry));
+      } else {
+        this.memory.set(entry.key, entry);
+      }
+    } catch (error) {
+      console.warn('寫入快取失敗:', error);
+    }
+  }
+
+  /**
+   * 超過容量上限時，淘汰最久未使用的項目
+   */
+  private async enforceLimit() {
+    const db = await this.dbPromise;
+
+    if (!db) {
+      const overflow = this.memory.size - this.options.maxEntries;
+      if (overflow <= 0) return;
+      [...this.memory.values()]
+        .sort((a, b) => a.lastAccess - b.lastAccess)
+        .slice(0, overflow)
+        .forEach(entry => this.memory.delete(entry.key));
+      return;
+    }
+
+    try {
+      const count = await this.withStore<number>('readonly', store => store.count());
+      const overflow = (count || 0) - this.options.maxEntries;
+      if (overflow <= 0) return;
+
+      await this.withStore('readwrite', store => {
+        let removed = 0;
+        const cursorRequest = store.index('lastAccess').openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (cursor && removed < overflow) {
+            cursor.delete();
+            removed++;
+            cursor.continue();
+          }
+        };
+      });
+    } catch (error) {
+      console.warn('清理快取失敗:', error);
+    }
+  }
+}
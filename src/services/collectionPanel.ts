@@ -0,0 +1,242 @@
+import { CollectionStore } from './collections.js';
+import { escapeHtml } from './format.js';
+
+// 面板容器 id
+const PANEL_ID = 'collection-panel';
+
+/**
+ * 收藏集面板 - 收藏按鈕旁的收藏集選擇器，以及建立、重新命名、刪除與排序收藏集的管理介面
+ */
+export class CollectionPanel {
+  private store: CollectionStore;
+  private onAdded: (poseId: number) => void;
+  private mode: { name: 'picker'; poseId: number; title: string } | { name: 'manager' } | null = null;
+  private error: string = '';
+
+  /**
+   * @param onAdded 動作加入收藏集時呼叫（用於同時收藏該動作）
+   */
+  constructor(store: CollectionStore, onAdded: (poseId: number) => void) {
+    this.store = store;
+    this.onAdded = onAdded;
+  }
+
+  /**
+   * 開啟指定動作的收藏集選擇器
+   */
+  openPicker(poseId: number, title: string) {
+    this.mode = { name: 'picker', poseId, title };
+    this.error = '';
+    this.render();
+  }
+
+  /**
+   * 開啟收藏集管理
+   */
+  openManager() {
+    this.mode = { name: 'manager' };
+    this.error = '';
+    this.render();
+  }
+
+  /**
+   * 關閉面板
+   */
+  close() {
+    this.mode = null;
+    document.getElementById(PANEL_ID)?.remove();
+  }
+
+  /**
+   * 執行收藏集操作，失敗時在面板中顯示錯誤
+   */
+  private run(action: () => void) {
+    try {
+      action();
+      this.error = '';
+    } catch (error) {
+      this.error = error instanceof Error ? error.message : String(error);
+    }
+    this.render();
+  }
+
+  /**
+   * 取得或建立面板容器
+   */
+  private getContainer(): HTMLElement {
+    let container = document.getElementById(PANEL_ID);
+
+    if (!container) {
+      container = document.createElement('div');
+      container.id = PANEL_ID;
+      container.className = 'collection-panel';
+      container.style.cssText = 'position: fixed; inset: 0; z-index: 1100; display: flex; align-items: center; justify-content: center; background: rgba(0, 0, 0, 0.4);';
+      container.addEventListener('click', (e) => this.handleClick(e));
+      container.addEventListener('ionChange', (e) => this.handleChange(e as CustomEvent));
+      document.body.appendChild(container);
+    }
+
+    return container;
+  }
+
+  /**
+   * 處理按鈕點擊
+   */
+  private handleClick(e: Event) {
+    const target = e.target as HTMLElement;
+    if (target.id === PANEL_ID || target.closest('.collection-panel-close')) {
+      this.close();
+      return;
+    }
+
+    const button = target.closest<HTMLElement>('[data-action]');
+    if (!button) return;
+    const id = button.dataset.collectionId || '';
+
+    switch (button.dataset.action) {
+      case 'create': {
+        const input = this.getContainer().querySelector('.collection-new-name') as any;
+        const name = String(input?.value || '');
+        this.run(() => {
+          const collection = this.store.create(name);
+          // 從選擇器建立時直接加入目前的動作
+          if (this.mode?.name === 'picker') this.addToCollection(collection.id, this.mode.poseId);
+        });
+        break;
+      }
+      case 'up':
+      case 'down': {
+        const index = this.store.list().findIndex(collection => collection.id === id);
+        this.run(() => this.store.move(id, index + (button.dataset.action === 'up' ? -1 : 1)));
+        break;
+      }
+      case 'delete': {
+        const collection = this.store.get(id);
+        if (collection && confirm(`確定要刪除收藏集「${collection.name}」？其中的筆記也會一併刪除`)) {
+          this.run(() => this.store.delete(id));
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * 處理勾選、筆記與名稱的變更
+   */
+  private handleChange(e: CustomEvent) {
+    const target = e.target as HTMLElement;
+    const id = target.dataset.collectionId || '';
+    if (!id || !this.mode) return;
+
+    if (target.classList.contains('collection-member') && this.mode.name === 'picker') {
+      const { poseId } = this.mode;
+      this.run(() => {
+        if (e.detail.checked) {
+          this.addToCollection(id, poseId);
+        } else {
+          this.store.setMembership(id, poseId, false);
+        }
+      });
+    } else if (target.classList.contains('collection-note') && this.mode.name === 'picker') {
+      const { poseId } = this.mode;
+      this.run(() => this.store.setNote(id, poseId, String(e.detail.value || '')));
+    } else if (target.classList.contains('collection-name')) {
+      this.run(() => this.store.rename(id, String(e.detail.value || '')));
+    }
+  }
+
+  /**
+   * 將動作加入收藏集，並通知呼叫端
+   */
+  private addToCollection(id: string, poseId: number) {
+    this.store.setMembership(id, poseId, true);
+    this.onAdded(poseId);
+  }
+
+  /**
+   * 渲染面板
+   */
+  private render() {
+    if (!this.mode) return;
+
+    const title = this.mode.name === 'picker' ? `加入收藏集：${this.mode.title}` : '管理收藏集';
+    const body = this.mode.name === 'picker' ? this.renderPicker(this.mode.poseId) : this.renderManager();
+
+    this.getContainer().innerHTML = `
+      <ion-card class="collection-panel-card" style="width: min(480px, 92vw); max-height: 85vh; overflow-y: auto;">
+        <ion-card-header>
+          <ion-card-title>${escapeHtml(title)}</ion-card-title>
+        </ion-card-header>
+        <ion-card-content>
+          ${body}
+          ${this.error ? `<p class="collection-panel-error" style="color: #e53e3e;">${escapeHtml(this.error)}</p>` : ''}
+          <ion-item lines="none">
+            <ion-input class="collection-new-name" placeholder="新收藏集名稱，例如：晨間練習" maxlength="40"></ion-input>
+            <ion-button slot="end" data-action="create">新增</ion-button>
+          </ion-item>
+          <ion-button expand="block" fill="clear" class="collection-panel-close">完成</ion-button>
+        </ion-card-content>
+      </ion-card>
+    `;
+  }
+
+  /**
+   * 選擇器 - 勾選動作所屬的收藏集，並為每個收藏集撰寫筆記
+   */
+  private renderPicker(poseId: number): string {
+    const collections = this.store.list();
+    if (collections.length === 0) return '<p>尚未建立收藏集</p>';
+
+    return `
+      <ion-list>
+        ${collections.map(collection => {
+          const member = collection.itemIds.includes(poseId);
+          return `
+            <ion-item>
+              <ion-checkbox slot="start" class="collection-member" data-collection-id="${collection.id}" ${member ? 'checked' : ''}></ion-checkbox>
+              <ion-label>${escapeHtml(collection.name)}</ion-label>
+              <ion-note slot="end">${collection.itemIds.length} 項</ion-note>
+            </ion-item>
+            ${member ? `
+              <ion-item lines="full">
+                <ion-textarea class="collection-note" data-collection-id="${collection.id}" auto-grow
+                              placeholder="個人筆記（例如：注意膝蓋、保持 5 個呼吸）"
+                              value="${escapeHtml(collection.notes[poseId] || '')}"></ion-textarea>
+              </ion-item>
+            ` : ''}
+          `;
+        }).join('')}
+      </ion-list>
+    `;
+  }
+
+  /**
+   * 管理介面 - 重新命名、調整順序與刪除
+   */
+  private renderManager(): string {
+    const collections = this.store.list();
+    if (collections.length === 0) return '<p>尚未建立收藏集</p>';
+
+    return `
+      <ion-list>
+        ${collections.map((collection, index) => `
+          <ion-item>
+            <ion-input class="collection-name" data-collection-id="${collection.id}" value="${escapeHtml(collection.name)}" maxlength="40" aria-label="收藏集名稱"></ion-input>
+            <ion-note slot="end">${collection.itemIds.length} 項</ion-note>
+            <ion-buttons slot="end">
+              <ion-button data-action="up" data-collection-id="${collection.id}" ${index === 0 ? 'disabled' : ''} aria-label="上移">
+                <ion-icon name="arrow-up-outline"></ion-icon>
+              </ion-button>
+              <ion-button data-action="down" data-collection-id="${collection.id}" ${index === collections.length - 1 ? 'disabled' : ''} aria-label="下移">
+                <ion-icon name="arrow-down-outline"></ion-icon>
+              </ion-button>
+              <ion-button data-action="delete" data-collection-id="${collection.id}" color="danger" aria-label="刪除">
+                <ion-icon name="trash-outline"></ion-icon>
+              </ion-button>
+            </ion-buttons>
+          </ion-item>
+        `).join('')}
+      </ion-list>
+    `;
+  }
+}
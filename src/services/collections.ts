@@ -0,0 +1,214 @@
+import { BookmarkCollection } from '../types/index.js';
+import { appEvents } from './eventBus.js';
+
+// 收藏集名稱長度上限
+const MAX_NAME_LENGTH = 40;
+
+// 筆記長度上限
+const MAX_NOTE_LENGTH = 1000;
+
+/**
+ * 收藏集儲存 - 依使用者分開存放在 localStorage
+ * 收藏集的順序即陣列順序；每次變更後發出 collections:changed 事件
+ */
+export class CollectionStore {
+  private userId: number | null = null;
+  private collections: BookmarkCollection[] = [];
+
+  /**
+   * 切換使用者並載入其收藏集，登出時傳入 null
+   */
+  setUser(userId: number | null) {
+    if (userId === this.userId) return;
+    this.userId = userId;
+    this.collections = this.load();
+    this.notify();
+  }
+
+  /**
+   * 取得所有收藏集（依使用者排列的順序）
+   */
+  list(): BookmarkCollection[] {
+    return this.collections.map(collection => ({ ...collection, itemIds: [...collection.itemIds], notes: { ...collection.notes } }));
+  }
+
+  /**
+   * 取得單個收藏集
+   */
+  get(id: string): BookmarkCollection | null {
+    return this.list().find(collection => collection.id === id) || null;
+  }
+
+  /**
+   * 取得動作所屬的收藏集 id
+   */
+  collectionsOf(poseId: number): string[] {
+    return this.collections.filter(collection => collection.itemIds.includes(poseId)).map(collection => collection.id);
+  }
+
+  /**
+   * 建立收藏集
+   */
+  create(name: string): BookmarkCollection {
+    const now = Date.now();
+    const collection: BookmarkCollection = {
+      id: `col_${now.toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+      name: this.validateName(name),
+      itemIds: [],
+      notes: {},
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.collections.push(collection);
+    this.save();
+    return { ...collection };
+  }
+
+  /**
+   * 重新命名收藏集
+   */
+  rename(id: string, name: string) {
+    const collection = this.find(id);
+    collection.name = this.validateName(name, id);
+    collection.updatedAt = Date.now();
+    this.save();
+  }
+
+  /**
+   * 刪除收藏集（包含其中的筆記）
+   */
+  delete(id: string) {
+    this.find(id);
+    this.collections = this.collections.filter(collection => collection.id !== id);
+    this.save();
+  }
+
+  /**
+   * 移動收藏集到指定位置
+   */
+  move(id: string, toIndex: number) {
+    const fromIndex = this.collections.indexOf(this.find(id));
+    const target = Math.max(0, Math.min(this.collections.length - 1, toIndex));
+    if (fromIndex === target) return;
+
+    const [collection] = this.collections.splice(fromIndex, 1);
+    this.collections.splice(target, 0, collection);
+    this.save();
+  }
+
+  /**
+   * 加入或移出收藏集 - 移出時一併刪除該動作在此收藏集的筆記
+   */
+  setMembership(id: string, poseId: number, member: boolean) {
+    const collection = this.find(id);
+    const included = collection.itemIds.includes(poseId);
+    if (included === member) return;
+
+    if (member) {
+      collection.itemIds.push(poseId);
+    } else {
+      collection.itemIds = collection.itemIds.filter(itemId => itemId !== poseId);
+      delete collection.notes[poseId];
+    }
+    collection.updatedAt = Date.now();
+    this.save();
+  }
+
+  /**
+   * 取得動作在收藏集中的筆記
+   */
+  getNote(id: string, poseId: number): string {
+    return this.collections.find(collection => collection.id === id)?.notes[poseId] || '';
+  }
+
+  /**
+   * 設定動作在收藏集中的筆記，空白筆記會被移除
+   */
+  setNote(id: string, poseId: number, note: string) {
+    const collection = this.find(id);
+    if (!collection.itemIds.includes(poseId)) {
+      throw new Error('請先將動作加入收藏集再撰寫筆記');
+    }
+
+    const trimmed = note.trim().slice(0, MAX_NOTE_LENGTH);
+    if ((collection.notes[poseId] || '') === trimmed) return;
+
+    if (trimmed) {
+      collection.notes[poseId] = trimmed;
+    } else {
+      delete collection.notes[poseId];
+    }
+    collection.updatedAt = Date.now();
+    this.save();
+  }
+
+  /**
+   * 找出收藏集，不存在時拋出錯誤
+   */
+  private find(id: string): BookmarkCollection {
+    const collection = this.collections.find(entry => entry.id === id);
+    if (!collection) throw new Error('收藏集不存在');
+    return collection;
+  }
+
+  /**
+   * 檢查名稱 - 不可空白，且不可與其他收藏集重複（不分大小寫）
+   */
+  private validateName(name: string, excludeId?: string): string {
+    if (this.userId === null) throw new Error('請先登入才能使用收藏集');
+
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('請輸入收藏集名稱');
+    if (trimmed.length > MAX_NAME_LENGTH) throw new Error(`收藏集名稱不可超過 ${MAX_NAME_LENGTH} 個字`);
+
+    const duplicate = this.collections.some(collection =>
+      collection.id !== excludeId && collection.name.toLowerCase() === trimmed.toLowerCase()
+    );
+    if (duplicate) throw new Error(`已有名為「${trimmed}」的收藏集`);
+
+    return trimmed;
+  }
+
+  /**
+   * 目前使用者的儲存鍵
+   */
+  private get storageKey(): string | null {
+    return this.userId === null ? null : `bookmark_collections_${this.userId}`;
+  }
+
+  /**
+   * 從 localStorage 載入，格式錯誤時視為沒有收藏集
+   */
+  private load(): BookmarkCollection[] {
+    if (!this.storageKey) return [];
+
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.storageKey) || '[]');
+      return Array.isArray(stored)
+        ? stored.filter(entry => entry && typeof entry.id === 'string' && Array.isArray(entry.itemIds))
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * 儲存並通知
+   */
+  private save() {
+    if (this.storageKey) {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.collections));
+    }
+    this.notify();
+  }
+
+  /**
+   * 發出收藏集變更事件
+   */
+  private notify() {
+    appEvents.emit('collections:changed', { collections: this.list() });
+  }
+}
+
+export const collectionStore = new CollectionStore();
@@ -0,0 +1,77 @@
+import { ApiConfig } from '../types/index.js';
+
+// localStorage 中覆寫 API 設定的鍵名
+const CONFIG_STORAGE_KEY = 'api_config';
+
+/**
+ * 預設 API 設定
+ */
+export const DEFAULT_API_CONFIG: ApiConfig = {
+  baseUrl: 'https://dae-mobile-assignment.hkit.cc/api',
+  timeout: 10000,
+  retries: 3,
+  retryDelay: 1000,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+  requestInterceptors: [],
+  responseInterceptors: [],
+};
+
+/**
+ * 可序列化的設定欄位（攔截器只能透過程式碼註冊）
+ */
+type SerializableApiConfig = Partial<Pick<ApiConfig, 'baseUrl' | 'timeout' | 'retries' | 'retryDelay' | 'headers'>>;
+
+/**
+ * 讀取頁面上的全域設定（window.YOGA_APP_CONFIG）
+ */
+function readGlobalConfig(): SerializableApiConfig {
+  const globalConfig = (window as any).YOGA_APP_CONFIG;
+  return globalConfig && typeof globalConfig === 'object' ? globalConfig : {};
+}
+
+/**
+ * 讀取 localStorage 中的設定覆寫
+ */
+function readStoredConfig(): SerializableApiConfig {
+  try {
+    const stored = localStorage.getItem(CONFIG_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * 合併預設值、全域設定、localStorage 覆寫與呼叫端覆寫，產生執行時設定
+ * 優先順序：overrides > localStorage > window.YOGA_APP_CONFIG > 預設值
+ */
+export function loadApiConfig(overrides: Partial<ApiConfig> = {}): ApiConfig {
+  const sources = [readGlobalConfig(), readStoredConfig(), overrides];
+
+  return sources.reduce<ApiConfig>((config, source) => ({
+    ...config,
+    ...source,
+    baseUrl: (source.baseUrl ?? config.baseUrl).replace(/\/+$/, ''),
+    headers: { ...config.headers, ...source.headers },
+    requestInterceptors: [...config.requestInterceptors, ...((source as Partial<ApiConfig>).requestInterceptors || [])],
+    responseInterceptors: [...config.responseInterceptors, ...((source as Partial<ApiConfig>).responseInterceptors || [])],
+  }), {
+    ...DEFAULT_API_CONFIG,
+    headers: { ...DEFAULT_API_CONFIG.headers },
+    requestInterceptors: [],
+    responseInterceptors: [],
+  });
+}
+
+/**
+ * 儲存設定覆寫到 localStorage，重新載入後生效（例如切換到 staging 或本地 mock）
+ */
+export function saveApiConfigOverride(config: SerializableApiConfig | null) {
+  if (config) {
+    localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+  } else {
+    localStorage.removeItem(CONFIG_STORAGE_KEY);
+  }
+}
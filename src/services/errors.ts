@@ -0,0 +1,124 @@
+/**
+ * API 錯誤基礎類別 - 攜帶狀態碼、端點與是否可重試
+ */
+export class ApiRequestError extends Error {
+  readonly status: number | null;
+  readonly endpoint: string;
+  readonly retryable: boolean;
+
+  constructor(message: string, endpoint: string, status: number | null = null, retryable: boolean = false) {
+    super(message);
+    this.name = new.target.name;
+    this.endpoint = endpoint;
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * 網路錯誤 - 無法連線、逾時或請求被中斷
+ */
+export class NetworkError extends ApiRequestError {
+  constructor(endpoint: string, cause?: unknown) {
+    super(
+      cause instanceof Error && cause.name === 'AbortError' ? '請求逾時' : '網路連線失敗',
+      endpoint,
+      null,
+      true
+    );
+  }
+}
+
+/**
+ * 請求已取消 - 被較新的請求取代（AbortController），不需顯示給使用者
+ */
+export class RequestAbortedError extends ApiRequestError {
+  constructor(endpoint: string) {
+    super('請求已取消', endpoint, null, false);
+  }
+}
+
+/**
+ * 伺服器暫時性錯誤 - 後端為測試目的隨機回傳的錯誤（"testing purposes"）
+ */
+export class TransientServerError extends ApiRequestError {
+  constructor(message: string, endpoint: string, status: number | null) {
+    super(`測試錯誤: ${message}`, endpoint, status, true);
+  }
+}
+
+/**
+ * 認證錯誤 - 401 未登入或 token 失效
+ */
+export class AuthenticationError extends ApiRequestError {
+  constructor(message: string, endpoint: string, status: number | null = 401) {
+    super(message, endpoint, status, false);
+  }
+}
+
+/**
+ * 找不到資源 - 404
+ */
+export class NotFoundError extends ApiRequestError {
+  constructor(message: string, endpoint: string) {
+    super(message, endpoint, 404, false);
+  }
+}
+
+/**
+ * 驗證錯誤 - 400/409/422 等請求內容不正確
+ */
+export class ValidationError extends ApiRequestError {
+  constructor(message: string, endpoint: string, status: number | null) {
+    super(message, endpoint, status, false);
+  }
+}
+
+/**
+ * 回應格式錯誤 - 無法解析或不符合預期結構
+ */
+export class MalformedResponseError extends ApiRequestError {
+  constructor(message: string, endpoint: string, status: number | null) {
+    super(message, endpoint, status, false);
+  }
+}
+
+/**
+ * 依據 HTTP 狀態與錯誤內容建立對應的錯誤物件
+ */
+export function createApiError(endpoint: string, status: number, body: any): ApiRequestError {
+  const message: string = (body && typeof body.error === 'string' && body.error) || `HTTP error! status: ${status}`;
+
+  if (body && typeof body.details === 'string' && body.details.includes('testing purposes')) {
+    return new TransientServerError(message, endpoint, status);
+  }
+
+  switch (status) {
+    case 401:
+    case 403:
+      return new AuthenticationError(message, endpoint, status);
+    case 404:
+      return new NotFoundError(message, endpoint);
+    case 400:
+    case 409:
+    case 422:
+      return new ValidationError(message, endpoint, status);
+    default:
+      // 5xx 視為暫時性錯誤，可重試
+      return new ApiRequestError(message, endpoint, status, status >= 500);
+  }
+}
+
+/**
+ * 將錯誤轉換為適合顯示給使用者的訊息
+ */
+export function describeError(error: unknown, fallback: string = '未知錯誤'): string {
+  if (error instanceof NetworkError) return `${error.message}，請檢查網路後重試`;
+  if (error instanceof TransientServerError) return '伺服器暫時無法回應，請稍後重試';
+  if (error instanceof AuthenticationError) return '登入已失效，請重新登入';
+  if (error instanceof NotFoundError) return '找不到請求的資料';
+  if (error instanceof ValidationError) return error.message;
+  if (error instanceof MalformedResponseError) return '伺服器回應格式錯誤';
+  if (error instanceof Error) return error.message;
+  return fallback;
+}
@@ -0,0 +1,77 @@
+import { AppEventMap } from '../types/index.js';
+
+/**
+ * 事件處理函數型別
+ */
+export type EventHandler<T> = (payload: T) => void;
+
+/**
+ * 型別安全的事件匯流排 - 同一個處理函數重複訂閱只會被呼叫一次
+ */
+export class EventBus<Events extends object> {
+  private handlers: Map<keyof Events, Set<EventHandler<any>>> = new Map();
+
+  /**
+   * 訂閱事件，回傳取消訂閱函數
+   */
+  on<K extends keyof Events>(type: K, handler: EventHandler<Events[K]>): () => void {
+    let handlers = this.handlers.get(type);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(type, handlers);
+    }
+    handlers.add(handler);
+
+    return () => this.off(type, handler);
+  }
+
+  /**
+   * 訂閱事件一次
+   */
+  once<K extends keyof Events>(type: K, handler: EventHandler<Events[K]>): () => void {
+    const wrapper: EventHandler<Events[K]> = (payload) => {
+      this.off(type, wrapper);
+      handler(payload);
+    };
+    return this.on(type, wrapper);
+  }
+
+  /**
+   * 取消訂閱
+   */
+  off<K extends keyof Events>(type: K, handler: EventHandler<Events[K]>) {
+    const handlers = this.handlers.get(type);
+    if (!handlers) return;
+
+    handlers.delete(handler);
+    if (handlers.size === 0) {
+      this.handlers.delete(type);
+    }
+  }
+
+  /**
+   * 發送事件 - 單一處理函數出錯不會影響其他訂閱者
+   */
+  emit<K extends keyof Events>(type: K, payload: Events[K]) {
+    const handlers = this.handlers.get(type);
+    if (!handlers) return;
+
+    [...handlers].forEach(handler => {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error(`事件處理失敗 (${String(type)}):`, error);
+      }
+    });
+  }
+
+  /**
+   * 取得事件的訂閱數量
+   */
+  listenerCount<K extends keyof Events>(type: K): number {
+    return this.handlers.get(type)?.size || 0;
+  }
+}
+
+// 應用程式共用的事件匯流排
+export const appEvents = new EventBus<AppEventMap>();
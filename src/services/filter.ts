@@ -1,18 +1,64 @@
-import { YogaPose, QueryParams } from '../types/index.js';
+import { YogaPose, QueryParams, FilterState, FilterOptions, TagMatchMode, BookmarkCollection } from '../types/index.js';
+import { appEvents } from './eventBus.js';
+import { normalizeQueryKey } from './cache.js';
+import { loadPageSize, savePageSize } from './pagination.js';
+import { matchesFilters, DIFFICULTY_LABELS } from './poseFilters.js';
+import { collectionStore } from './collections.js';
+import { parseSortValue, formatSortValue, toSortField, sortPoses, SORT_FIELD_LABELS } from './sorting.js';
+import { parseSearchQuery, formatSearchQuery, compileResidualQuery, ParsedSearchQuery } from './queryParser.js';
+
+// 搜尋輸入的防抖延遲（毫秒）
+const SEARCH_DEBOUNCE_MS = 300;
+
+// 最短搜尋長度（中日韓文字一個字即有意義）
+const MIN_SEARCH_LENGTH = 2;
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/;
+
+// 時長範圍滑桿的預設上限（分鐘），載入資料後依最長時長調整
+const DEFAULT_MAX_DURATION = 60;
+
+/**
+ * 預設過濾條件
+ */
+export const DEFAULT_FILTER_STATE: FilterState = {
+  search: '',
+  categories: [],
+  difficulties: [],
+  minDuration: null,
+  maxDuration: null,
+  tags: [],
+  tagMode: 'or',
+  instructor: '',
+  sort: 'default',
+  bookmarksOnly: false,
+  collection: ''
+};
 
 /**
- * 過濾和搜尋管理器
+ * 將 ion-select 的值轉為字串陣列（單選或多選皆可）
+ */
+function toStringArray(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((entry): entry is string => typeof entry === 'string' && entry !== '');
+  return typeof value === 'string' && value ? [value] : [];
+}
+
+/**
+ * 過濾和搜尋管理器 - 管理搜尋、多選分類、難度、時長範圍、標籤、導師、排序、只看收藏與收藏集
  */
 export class FilterManager {
-  private currentSearch: string = '';
-  private currentCategory: string = '';
-  private currentSort: string = 'default';
-  private showBookmarksOnly: boolean = false;
-  private onFilterChange: (params: QueryParams) => void;
-
-  constructor(onFilterChange: (params: QueryParams) => void) {
-    this.onFilterChange = onFilterChange;
+  private state: FilterState = { ...DEFAULT_FILTER_STATE };
+  private pageSize: number = loadPageSize();
+  private durationLimit: number = DEFAULT_MAX_DURATION;
+  private searchTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastEmittedKey: string | null = null;
+
+  constructor() {
+    this.createAdvancedFilters();
+    this.createCollectionFilter();
+    this.createSortOptions();
     this.setupEventListeners();
+    this.updateCollectionOptions(collectionStore.list());
+    appEvents.on('collections:changed', ({ collections }) => this.updateCollectionOptions(collections));
   }
 
   /**
@@ -23,28 +69,52 @@ export class FilterManager {
     const searchBar = document.getElementById('search-bar');
     if (searchBar) {
       searchBar.addEventListener('ionInput', (e: any) => {
-        this.currentSearch = e.detail.value.trim();
-        this.applyFilters();
+        this.scheduleSearch(e.detail.value || '');
       });
     }
 
-    // 分類過濾器
+    // 分類過濾器（多選）
     const categoryFilter = document.getElementById('category-filter');
     if (categoryFilter) {
+      categoryFilter.setAttribute('multiple', 'true');
       categoryFilter.addEventListener('ionChange', (e: any) => {
-        this.currentCategory = e.detail.value;
-        this.applyFilters();
+        this.update({ categories: toStringArray(e.detail.value) });
       });
     }
 
-    // 排序選擇器
-    const sortSelect = document.getElementById('sort-select');
-    if (sortSelect) {
-      sortSelect.addEventListener('ionChange', (e: any) => {
-        this.currentSort = e.detail.value;
-        this.applyFilters();
+    // 難度過濾器（多選）
+    document.getElementById('difficulty-filter')?.addEventListener('ionChange', (e: any) => {
+      this.update({ difficulties: toStringArray(e.detail.value) });
+    });
+
+    // 時長範圍，滑到兩端視為不限
+    document.getElementById('duration-filter')?.addEventListener('ionChange', (e: any) => {
+      const { lower, upper } = e.detail.value || {};
+      this.update({
+        minDuration: typeof lower === 'number' && lower > 0 ? lower : null,
+        maxDuration: typeof upper === 'number' && upper < this.durationLimit ? upper : null
       });
-    }
+    });
+
+    // 標籤過濾器（多選）與比對方式
+    document.getElementById('tag-filter')?.addEventListener('ionChange', (e: any) => {
+      this.update({ tags: toStringArray(e.detail.value) });
+    });
+    document.getElementById('tag-mode')?.addEventListener('ionChange', (e: any) => {
+      this.update({ tagMode: e.detail.value === 'and' ? 'and' : 'or' });
+    });
+
+    // 導師過濾器
+    document.getElementById('instructor-filter')?.addEventListener('ionChange', (e: any) => {
+      this.update({ instructor: e.detail.value || '' });
+    });
+
+    // 排序欄位與排序方向選擇器
+    ['sort-select', 'order-select'].forEach(id => {
+      document.getElementById(id)?.addEventListener('ionChange', () => {
+        this.update({ sort: this.readSortControls() });
+      });
+    });
 
     // 只看收藏按鈕
     const bookmarksOnlyBtn = document.getElementById('bookmarks-only-btn');
@@ -53,15 +123,288 @@ export class FilterManager {
         this.toggleBookmarksOnly();
       });
     }
+
+    // 收藏集過濾器
+    document.getElementById('collection-filter')?.addEventListener('ionChange', (e: any) => {
+      this.update({ collection: e.detail.value || '' });
+    });
+
+    // 已套用條件的標籤，點擊移除
+    document.getElementById('active-filters')?.addEventListener('click', (e) => {
+      const chip = (e.target as HTMLElement).closest<HTMLElement>('[data-filter]');
+      if (chip) this.removeFilter(chip.dataset.filter || '', chip.dataset.value || '');
+    });
+  }
+
+  /**
+   * 建立進階過濾控制項與已套用條件區塊，放在分類過濾器（或搜尋欄）之後
+   */
+  private createAdvancedFilters() {
+    if (document.getElementById('advanced-filters')) return;
+
+    const anchor = document.getElementById('category-filter') || document.getElementById('search-bar');
+    if (!anchor) return;
+
+    const panel = document.createElement('div');
+    panel.id = 'advanced-filters';
+    panel.className = 'advanced-filters';
+    panel.innerHTML = `
+      <ion-item>
+        <ion-select id="difficulty-filter" label="難度" multiple="true" placeholder="所有難度"></ion-select>
+      </ion-item>
+      <ion-item>
+        <ion-label>時長（分鐘）</ion-label>
+        <ion-range id="duration-filter" dual-knobs="true" min="0" max="${DEFAULT_MAX_DURATION}" step="1" pin="true"></ion-range>
+      </ion-item>
+      <ion-item>
+        <ion-select id="tag-filter" label="標籤" multiple="true" placeholder="所有標籤"></ion-select>
+      </ion-item>
+      <ion-segment id="tag-mode" value="or">
+        <ion-segment-button value="or"><ion-label>符合任一標籤</ion-label></ion-segment-button>
+        <ion-segment-button value="and"><ion-label>符合全部標籤</ion-label></ion-segment-button>
+      </ion-segment>
+      <ion-item>
+        <ion-select id="instructor-filter" label="導師" placeholder="所有導師"></ion-select>
+      </ion-item>
+    `;
+
+    const chips = document.createElement('div');
+    chips.id = 'active-filters';
+    chips.className = 'active-filters';
+
+    anchor.insertAdjacentElement('afterend', panel);
+    panel.insertAdjacentElement('afterend', chips);
+
+    // 查詢語法錯誤提示，顯示在搜尋欄下方
+    const searchBar = document.getElementById('search-bar');
+    if (searchBar && !document.getElementById('search-errors')) {
+      const errors = document.createElement('div');
+      errors.id = 'search-errors';
+      errors.className = 'search-errors';
+      errors.style.cssText = 'color: #e53e3e; font-size: 0.85em; padding: 0 16px;';
+      searchBar.insertAdjacentElement('afterend', errors);
+    }
+  }
+
+  /**
+   * 補上排序選單缺少的排序欄位（例如日期排序），讓所有已註冊的排序都能選擇
+   */
+  private createSortOptions() {
+    const select = document.getElementById('sort-select');
+    if (!select) return;
+
+    const existing = new Set([...select.querySelectorAll('ion-select-option')].map(option => option.getAttribute('value')));
+    Object.entries(SORT_FIELD_LABELS)
+      .filter(([field]) => !existing.has(field))
+      .forEach(([field, label]) => {
+        const option = document.createElement('ion-select-option');
+        option.setAttribute('value', field);
+        option.textContent = label;
+        select.appendChild(option);
+      });
+  }
+
+  /**
+   * 建立收藏集過濾器與管理按鈕，放在只看收藏按鈕（或進階過濾區塊）之後
+   */
+  private createCollectionFilter() {
+    if (document.getElementById('collection-filter')) return;
+
+    const anchor = document.getElementById('bookmarks-only-btn') || document.getElementById('advanced-filters');
+    if (!anchor) return;
+
+    const controls = document.createElement('div');
+    controls.id = 'collection-controls';
+    controls.className = 'collection-controls';
+    controls.style.cssText = 'display: inline-flex; align-items: center; gap: 4px;';
+    controls.innerHTML = `
+      <ion-select id="collection-filter" interface="popover" placeholder="所有收藏集" aria-label="收藏集"></ion-select>
+      <ion-button id="manage-collections-btn" fill="clear" size="small" title="管理收藏集">
+        <ion-icon slot="icon-only" name="folder-open-outline"></ion-icon>
+      </ion-button>
+    `;
+    anchor.insertAdjacentElement('afterend', controls);
+  }
+
+  /**
+   * 更新收藏集選項 - 目前篩選的收藏集被刪除時取消篩選
+   */
+  private updateCollectionOptions(collections: BookmarkCollection[]) {
+    this.replaceSelectOptions('collection-filter', [
+      ['', '所有收藏集'],
+      ...collections.map(collection => [collection.id, `${collection.name}（${collection.itemIds.length}）`])
+    ]);
+
+    if (this.state.collection && !collections.some(collection => collection.id === this.state.collection)) {
+      this.update({ collection: '' });
+    } else {
+      this.renderActiveFilters();
+    }
+  }
+
+  /**
+   * 防抖搜尋 - 停止輸入一段時間後才解析查詢語法並套用，太短的關鍵字視為清除搜尋
+   * 輸入的查詢決定所有可由下拉選單表示的條件，並同步到下拉選單
+   */
+  private scheduleSearch(value: string) {
+    if (this.searchTimer) clearTimeout(this.searchTimer);
+
+    this.searchTimer = setTimeout(() => {
+      this.searchTimer = null;
+      const search = value.trim();
+      if (search && !this.isSearchable(search)) {
+        // 不保留較長關鍵字的結果，讓列表與網址符合搜尋欄
+        this.showSearchErrors([]);
+        this.update({ search: '' }, false);
+        return;
+      }
+
+      const parsed = parseSearchQuery(search);
+      this.showSearchErrors(parsed.errors);
+
+      // 使用者仍在輸入，不改寫搜尋欄內容
+      this.update({ ...parsed.filters, search: parsed.residual }, false);
+      this.syncControls(false);
+    }, SEARCH_DEBOUNCE_MS);
+  }
+
+  /**
+   * 顯示查詢語法錯誤
+   */
+  private showSearchErrors(errors: string[]) {
+    const container = document.getElementById('search-errors');
+    if (!container) return;
+
+    container.replaceChildren(...errors.map(message => {
+      const line = document.createElement('p');
+      line.className = 'search-error';
+      line.textContent = message;
+      return line;
+    }));
+  }
+
+  /**
+   * 判斷關鍵字是否達到最短搜尋長度
+   */
+  private isSearchable(search: string): boolean {
+    return search.length >= MIN_SEARCH_LENGTH || CJK_PATTERN.test(search);
+  }
+
+  /**
+   * 由控制項更新部分條件並套用 - 預設同時把搜尋欄更新為對應的查詢語法
+   */
+  private update(changes: Partial<FilterState>, syncSearchBar: boolean = true) {
+    const next = { ...this.state, ...changes };
+    if (JSON.stringify(next) === JSON.stringify(this.state)) return;
+
+    this.state = next;
+    if (syncSearchBar) this.syncSearchBar();
+    this.renderActiveFilters();
+    // 不同步搜尋欄表示變更來自搜尋欄輸入
+    this.applyFilters(false, !syncSearchBar);
+  }
+
+  /**
+   * 將搜尋欄更新為目前條件對應的查詢語法
+   */
+  private syncSearchBar() {
+    const searchBar = document.getElementById('search-bar') as any;
+    if (searchBar) searchBar.value = formatSearchQuery(this.state);
+  }
+
+  /**
+   * 移除單一已套用條件（點擊條件標籤時）
+   */
+  private removeFilter(filter: string, value: string) {
+    const without = (values: string[]) => values.filter(entry => entry !== value);
+
+    switch (filter) {
+      case 'search':
+        this.setState({ search: '' }, true);
+        break;
+      case 'category':
+        this.setState({ categories: without(this.state.categories) }, true);
+        break;
+      case 'difficulty':
+        this.setState({ difficulties: without(this.state.difficulties) }, true);
+        break;
+      case 'duration':
+        this.setState({ minDuration: null, maxDuration: null }, true);
+        break;
+      case 'tag':
+        this.setState({ tags: without(this.state.tags) }, true);
+        break;
+      case 'instructor':
+        this.setState({ instructor: '' }, true);
+        break;
+      case 'bookmarks':
+        this.setState({ bookmarksOnly: false }, true);
+        break;
+      case 'collection':
+        this.setState({ collection: '' }, true);
+        break;
+      case 'all':
+        this.setState({ ...DEFAULT_FILTER_STATE, sort: this.state.sort }, true);
+        break;
+    }
+  }
+
+  /**
+   * 顯示已套用的過濾條件標籤
+   */
+  private renderActiveFilters() {
+    const container = document.getElementById('active-filters');
+    if (!container) return;
+
+    const { search, categories, difficulties, minDuration, maxDuration, tags, tagMode, instructor, bookmarksOnly, collection } = this.state;
+    const chips: Array<{ filter: string; value: string; label: string }> = [];
+
+    if (search) chips.push({ filter: 'search', value: search, label: `搜尋：${search}` });
+    categories.forEach(category => chips.push({ filter: 'category', value: category, label: `分類：${category}` }));
+    difficulties.forEach(difficulty => chips.push({
+      filter: 'difficulty',
+      value: difficulty,
+      label: `難度：${DIFFICULTY_LABELS[difficulty] || difficulty}`
+    }));
+    if (minDuration !== null || maxDuration !== null) {
+      chips.push({ filter: 'duration', value: '', label: `時長：${minDuration ?? 0}–${maxDuration ?? '∞'} 分鐘` });
+    }
+    tags.forEach(tag => chips.push({
+      filter: 'tag',
+      value: tag,
+      label: `標籤${tags.length > 1 ? (tagMode === 'and' ? '（全部）' : '（任一）') : ''}：${tag}`
+    }));
+    if (instructor) chips.push({ filter: 'instructor', value: instructor, label: `導師：${instructor}` });
+    if (bookmarksOnly) chips.push({ filter: 'bookmarks', value: '', label: '只看收藏' });
+    if (collection) {
+      const name = collectionStore.get(collection)?.name || collection;
+      chips.push({ filter: 'collection', value: collection, label: `收藏集：${name}` });
+    }
+    if (chips.length > 1) chips.push({ filter: 'all', value: '', label: '清除全部' });
+
+    // 以 DOM 建立以免資料中的特殊字元被當成 HTML
+    container.replaceChildren(...chips.map(({ filter, value, label }) => {
+      const chip = document.createElement('ion-chip');
+      chip.dataset.filter = filter;
+      chip.dataset.value = value;
+      chip.setAttribute('outline', filter === 'all' ? 'true' : 'false');
+      chip.append(document.createTextNode(label));
+
+      const icon = document.createElement('ion-icon');
+      icon.setAttribute('name', 'close-circle');
+      chip.append(icon);
+      return chip;
+    }));
   }
 
   /**
    * 切換只看收藏模式
    */
   private toggleBookmarksOnly() {
-    this.showBookmarksOnly = !this.showBookmarksOnly;
+    this.state = { ...this.state, bookmarksOnly: !this.state.bookmarksOnly };
     this.updateBookmarksOnlyButton();
-    this.applyFilters();
+    this.renderActiveFilters();
+    this.applyFilters(true);
   }
 
   /**
@@ -71,7 +414,7 @@ export class FilterManager {
     const btn = document.getElementById('bookmarks-only-btn');
     if (!btn) return;
 
-    if (this.showBookmarksOnly) {
+    if (this.state.bookmarksOnly) {
       btn.innerHTML = `
         <ion-icon slot="start" name="bookmark"></ion-icon>
         顯示全部
@@ -87,60 +430,228 @@ export class FilterManager {
   }
 
   /**
-   * 應用過濾條件
+   * 將目前的過濾條件轉為查詢參數（第 1 頁）
+   * API 不支援的條件由 ApiService 略過，並在 filterLocalPoses 中套用
    */
-  private applyFilters() {
+  toQueryParams(): QueryParams {
+    const { search, categories, difficulties, minDuration, maxDuration, tags, tagMode, instructor, sort } = this.state;
     const params: QueryParams = {
       page: 1, // 重設頁碼
-      limit: 3
+      limit: this.pageSize,
+      // 查詢語法中的關鍵字與排除條件
+      ...compileResidualQuery(search)
     };
 
-    if (this.currentSearch) {
-      params.search = this.currentSearch;
+    if (categories.length > 0) params.categories = [...categories];
+    if (difficulties.length > 0) params.difficulty = [...difficulties];
+    if (minDuration !== null) params.minDuration = minDuration;
+    if (maxDuration !== null) params.maxDuration = maxDuration;
+    if (tags.length > 0) {
+      params.tags = [...tags];
+      params.tagMode = tagMode;
     }
+    if (instructor) params.instructor = instructor;
 
-    if (this.currentCategory) {
-      params.category = this.currentCategory;
+    const sortSpec = parseSortValue(sort);
+    if (sortSpec) {
+      params.sort = sortSpec.field;
+      params.order = sortSpec.order;
     }
 
-    if (this.currentSort !== 'default') {
-      const [field, order] = this.currentSort.split('-');
-      params.sort = field;
-      params.order = order as 'asc' | 'desc';
-    }
+    return params;
+  }
+
+  /**
+   * 應用過濾條件 - force 為 true 時即使查詢參數相同也重新通知
+   * fromSearchBar 為 true 表示由搜尋欄輸入觸發
+   */
+  private applyFilters(force: boolean = false, fromSearchBar: boolean = false) {
+    const params = this.toQueryParams();
+
+    // 條件與上次相同時不重複請求
+    const key = this.emitKey();
+    if (!force && key === this.lastEmittedKey) return;
+    this.lastEmittedKey = key;
 
     // 通知主應用程式應用過濾條件
-    this.onFilterChange(params);
+    appEvents.emit('filters:changed', { params, fromSearchBar });
+  }
+
+  /**
+   * 判斷條件是否改變的鍵 - 查詢參數加上只在本地套用的收藏集
+   */
+  private emitKey(): string {
+    return `${normalizeQueryKey(this.toQueryParams())}#${this.state.collection}`;
+  }
+
+  /**
+   * 變更每頁數量並重新載入
+   */
+  setPageSize(size: number) {
+    if (size === this.pageSize) return;
+    this.pageSize = size;
+    savePageSize(size);
+    this.applyFilters(true);
+  }
+
+  /**
+   * 取得目前的每頁數量
+   */
+  get pageSizeValue(): number {
+    return this.pageSize;
+  }
+
+  /**
+   * 取得目前的過濾條件
+   */
+  getState(): FilterState {
+    return {
+      ...this.state,
+      categories: [...this.state.categories],
+      difficulties: [...this.state.difficulties],
+      tags: [...this.state.tags]
+    };
+  }
+
+  /**
+   * 設定過濾條件並同步 UI 控制項（例如從網址還原）
+   * emit 為 true 時通知主應用程式重新載入
+   */
+  setState(state: Partial<FilterState>, emit: boolean = false) {
+    if (this.searchTimer) clearTimeout(this.searchTimer);
+    this.searchTimer = null;
+
+    this.state = { ...this.state, ...state };
+
+    // 正規化排序值（例如舊網址的 title-asc）
+    this.state.sort = formatSortValue(parseSortValue(this.state.sort));
+
+    // 搜尋文字中的欄位條件（例如手動編輯網址）併入對應的下拉選單
+    if (state.search !== undefined) {
+      const parsed = parseSearchQuery(state.search);
+      this.state = this.mergeParsedFilters(this.state, parsed);
+      this.showSearchErrors(parsed.errors);
+    }
+
+    this.syncControls();
+
+    if (emit) {
+      this.applyFilters(true);
+    } else {
+      // 已由呼叫端載入，控制項觸發的相同條件不需再次通知
+      this.lastEmittedKey = this.emitKey();
+    }
+  }
+
+  /**
+   * 將解析出的欄位條件併入過濾條件
+   */
+  private mergeParsedFilters(state: FilterState, parsed: ParsedSearchQuery): FilterState {
+    const union = (a: string[], b: string[]) => [...new Set([...a, ...b])];
+    const { filters } = parsed;
+
+    return {
+      ...state,
+      search: parsed.residual,
+      categories: union(state.categories, filters.categories),
+      difficulties: union(state.difficulties, filters.difficulties),
+      tags: union(state.tags, filters.tags),
+      minDuration: filters.minDuration ?? state.minDuration,
+      maxDuration: filters.maxDuration ?? state.maxDuration,
+      instructor: filters.instructor || state.instructor
+    };
+  }
+
+  /**
+   * 將 UI 控制項更新為目前的過濾條件
+   */
+  private syncControls(includeSearchBar: boolean = true) {
+    const setValue = (id: string, value: unknown) => {
+      const element = document.getElementById(id) as any;
+      if (element) element.value = value;
+    };
+
+    if (includeSearchBar) this.syncSearchBar();
+    setValue('category-filter', this.state.categories);
+    setValue('difficulty-filter', this.state.difficulties);
+    setValue('duration-filter', {
+      lower: this.state.minDuration ?? 0,
+      upper: this.state.maxDuration ?? this.durationLimit
+    });
+    setValue('tag-filter', this.state.tags);
+    setValue('tag-mode', this.state.tagMode);
+    setValue('instructor-filter', this.state.instructor);
+    setValue('collection-filter', this.state.collection);
+    // 有獨立的排序方向選擇器時，排序欄位與方向分開設定
+    const sortSpec = parseSortValue(this.state.sort);
+    if (document.getElementById('order-select')) {
+      setValue('sort-select', sortSpec?.field ?? '');
+      setValue('order-select', sortSpec?.order ?? 'asc');
+    } else {
+      setValue('sort-select', this.state.sort);
+    }
+
+    this.updateBookmarksOnlyButton();
+    this.renderActiveFilters();
+  }
+
+  /**
+   * 以資料集整理出的可選值更新各過濾控制項
+   */
+  updateFilterOptions(options: FilterOptions) {
+    this.updateCategoryOptions(options.categories);
+    this.replaceSelectOptions('difficulty-filter', options.difficulties.map(level => [level, DIFFICULTY_LABELS[level] || level]));
+    this.replaceSelectOptions('tag-filter', options.tags.map(tag => [tag, tag]));
+    this.replaceSelectOptions('instructor-filter', [['', '所有導師'], ...options.instructors.map(name => [name, name])]);
+
+    const durationFilter = document.getElementById('duration-filter') as any;
+    if (durationFilter && options.maxDuration > 0) {
+      this.durationLimit = Math.max(options.maxDuration, this.state.maxDuration ?? 0);
+      durationFilter.max = this.durationLimit;
+    }
+
+    this.syncControls();
   }
 
   /**
    * 更新分類選項
    */
   updateCategoryOptions(categories: string[]) {
-    const categoryFilter = document.getElementById('category-filter');
-    if (!categoryFilter) return;
+    this.replaceSelectOptions('category-filter', categories.map(category => [category, category]));
+  }
 
-    // 清除現有選項（除了全部分類）
-    const existingOptions = categoryFilter.querySelectorAll('ion-select-option:not([value=""])');
-    existingOptions.forEach(option => option.remove());
+  /**
+   * 取代 ion-select 的所有選項
+   */
+  private replaceSelectOptions(id: string, options: string[][]) {
+    const select = document.getElementById(id);
+    if (!select) return;
 
-    // 新增分類選項
-    categories.forEach(category => {
+    select.querySelectorAll('ion-select-option').forEach(option => option.remove());
+    options.forEach(([value, label]) => {
       const option = document.createElement('ion-select-option');
-      option.setAttribute('value', category);
-      option.textContent = category;
-      categoryFilter.appendChild(option);
+      option.setAttribute('value', value);
+      option.textContent = label;
+      select.appendChild(option);
     });
   }
 
   /**
-   * 本地過濾（用於收藏功能）
+   * 本地過濾 - 套用 API 不支援的條件與只看收藏
+   * 關鍵字由伺服器或全文索引比對，這裡不再比對
    */
   filterLocalPoses(poses: YogaPose[], bookmarkedIds: Set<number>): YogaPose[] {
-    let filtered = poses;
+    const params: QueryParams = { ...this.toQueryParams(), terms: undefined };
+    let filtered = poses.filter(pose => matchesFilters(pose, params));
+
+    // 收藏集過濾
+    if (this.state.collection) {
+      const itemIds = new Set(collectionStore.get(this.state.collection)?.itemIds || []);
+      filtered = filtered.filter(pose => itemIds.has(pose.id));
+    }
 
     // 只看收藏過濾
-    if (this.showBookmarksOnly) {
+    if (this.state.bookmarksOnly) {
       filtered = filtered.filter(pose => bookmarkedIds.has(pose.id));
     }
 
@@ -148,73 +659,60 @@ export class FilterManager {
   }
 
   /**
-   * 本地排序
+   * 本地排序 - 使用與伺服器相同的排序規則
    */
   sortLocalPoses(poses: YogaPose[]): YogaPose[] {
-    if (this.currentSort === 'default') {
-      return poses;
-    }
-
-    const [field, order] = this.currentSort.split('-');
-    
-    return [...poses].sort((a, b) => {
-      let aValue: string;
-      let bValue: string;
-
-      switch (field) {
-        case 'title':
-          aValue = a.title.toLowerCase();
-          bValue = b.title.toLowerCase();
-          break;
-        case 'category':
-          aValue = a.category.toLowerCase();
-          bValue = b.category.toLowerCase();
-          break;
-        default:
-          return 0;
-      }
+    const sortSpec = parseSortValue(this.state.sort);
+    return sortSpec ? sortPoses(poses, sortSpec.field, sortSpec.order) : poses;
+  }
 
-      if (order === 'desc') {
-        [aValue, bValue] = [bValue, aValue];
-      }
+  /**
+   * 讀取排序控制項 - 排序欄位可為 name 或 name-desc 格式，有排序方向選擇器時以其為準
+   */
+  private readSortControls(): string {
+    const sortValue = String((document.getElementById('sort-select') as any)?.value || '');
+    const orderSelect = document.getElementById('order-select') as any;
 
-      return aValue.localeCompare(bValue);
-    });
+    if (!orderSelect) return formatSortValue(parseSortValue(sortValue));
+
+    const field = toSortField(sortValue);
+    return formatSortValue(field ? { field, order: orderSelect.value === 'desc' ? 'desc' : 'asc' } : null);
   }
 
   /**
    * 重設所有過濾條件
    */
   reset() {
-    this.currentSearch = '';
-    this.currentCategory = '';
-    this.currentSort = 'default';
-    this.showBookmarksOnly = false;
-
-    // 重設 UI
-    const searchBar = document.getElementById('search-bar') as any;
-    if (searchBar) searchBar.value = '';
-
-    const categoryFilter = document.getElementById('category-filter') as any;
-    if (categoryFilter) categoryFilter.value = '';
-
-    const sortSelect = document.getElementById('sort-select') as any;
-    if (sortSelect) sortSelect.value = 'default';
-
-    this.updateBookmarksOnlyButton();
+    this.setState({ ...DEFAULT_FILTER_STATE });
+    this.lastEmittedKey = null;
   }
 
   /**
    * 取得目前是否為只看收藏模式
    */
   get isBookmarksOnly(): boolean {
-    return this.showBookmarksOnly;
+    return this.state.bookmarksOnly;
+  }
+
+  /**
+   * 取得目前查詢中要比對的關鍵字（不含欄位條件與排除條件）
+   */
+  get searchText(): string {
+    const { search, terms = [] } = compileResidualQuery(this.state.search);
+    return [search, ...terms].filter(Boolean).join(' ');
+  }
+
+  /**
+   * 取得目前篩選的收藏集 id（空字串表示不限）
+   */
+  get collectionId(): string {
+    return this.state.collection;
   }
 
   /**
    * 取得目前的排序設定
    */
   get currentSortValue(): string {
-    return this.currentSort;
+    return this.state.sort;
   }
-}
\ No newline at end of file
+}
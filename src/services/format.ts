@@ -0,0 +1,18 @@
+/**
+ * 跳脫 HTML 特殊字元（含引號，可用於屬性值）
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * 格式化分鐘數（最多一位小數）
+ */
+export function formatMinutes(minutes: number): string {
+  return `${Math.round(minutes * 10) / 10} 分鐘`;
+}
@@ -0,0 +1,627 @@
+import { PracticeSequence, PracticeSessionRecord, PracticeStep } from '../types/index.js';
+import { ApiService } from './api.js';
+import { PracticeLog } from './practiceLog.js';
+import { RequestAbortedError, describeError } from './errors.js';
+import { escapeHtml } from './format.js';
+
+// 播放器容器 id
+const PLAYER_ID = 'guided-player';
+
+// 轉換倒數秒數的儲存鍵
+const TRANSITION_KEY = 'practice_transition_seconds';
+
+// 可選的轉換倒數秒數（0 表示不倒數）
+const TRANSITION_OPTIONS = [0, 5, 10, 15];
+
+// 倒數更新間隔（毫秒）
+const TICK_INTERVAL = 250;
+
+// 載入序列動作時的並行請求數
+const LOAD_CONCURRENCY = 4;
+
+type PlayerPhase = 'loading' | 'error' | 'transition' | 'pose' | 'finished';
+
+/**
+ * 格式化倒數時間為 m:ss
+ */
+function formatClock(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * 格式化練習時間為「x 分 y 秒」
+ */
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return minutes > 0 ? `${minutes} 分${rest > 0 ? ` ${rest} 秒` : '鐘'}` : `${rest} 秒`;
+}
+
+/**
+ * 讀取轉換倒數偏好，預設 5 秒
+ */
+function loadTransitionSeconds(): number {
+  const stored = Number(localStorage.getItem(TRANSITION_KEY));
+  return TRANSITION_OPTIONS.includes(stored) && localStorage.getItem(TRANSITION_KEY) !== null ? stored : 5;
+}
+
+/**
+ * 引導練習播放器 - 全螢幕逐一播放動作，每個動作依停留時間倒數
+ * 支援暫停、繼續、跳過與返回，動作之間可加入轉換倒數；播放時盡量保持螢幕常亮
+ * 練習結束（或提前結束）時記錄練習摘要
+ */
+export class GuidedPlayer {
+  private apiService: ApiService;
+  private log: PracticeLog;
+  private controller: AbortController | null = null;
+  private name: string = '';
+  private sequenceId: string | null = null;
+  private steps: Required<PracticeStep>[] = [];
+  private missingCount: number = 0;
+  private index: number = 0;
+  private phase: PlayerPhase | null = null;
+  private paused: boolean = false;
+  private remainingMs: number = 0;
+  private phaseEndsAt: number = 0;
+  private lastTick: number = 0;
+  private practicedMs: number[] = [];
+  private poseStartedAt: number[] = [];
+  private startedAt: number = 0;
+  private timer: number | null = null;
+  private wakeLock: WakeLockSentinel | null = null;
+  private transitionSeconds: number = loadTransitionSeconds();
+  private session: PracticeSessionRecord | null = null;
+  private error: string = '';
+
+  private readonly onKeydown = (e: KeyboardEvent) => this.handleKeydown(e);
+  private readonly onVisibilityChange = () => {
+    if (document.visibilityState === 'visible' && this.isPlaying && !this.paused) this.acquireWakeLock();
+  };
+
+  constructor(apiService: ApiService, log: PracticeLog) {
+    this.apiService = apiService;
+    this.log = log;
+  }
+
+  /**
+   * 目前是否顯示播放器
+   */
+  get isOpen(): boolean {
+    return this.phase !== null;
+  }
+
+  /**
+   * 是否正在練習（倒數中或暫停中）
+   */
+  private get isPlaying(): boolean {
+    return this.phase === 'transition' || this.phase === 'pose';
+  }
+
+  /**
+   * 播放練習序列 - 先載入序列中動作的完整資料，停留時間使用序列中設定的時間
+   */
+  async playSequence(sequence: PracticeSequence) {
+    this.open(sequence.name, sequence.id);
+    this.setPhase('loading', 0);
+
+    const controller = new AbortController();
+    this.controller = controller;
+
+    try {
+      const poses = await this.apiService.getYogaPosesByIds(sequence.steps.map(step => step.poseId), {
+        signal: controller.signal,
+        concurrency: LOAD_CONCURRENCY
+      });
+      if (this.controller !== controller) return;
+      this.controller = null;
+
+      const steps: Required<PracticeStep>[] = [];
+      sequence.steps.forEach(step => {
+        const pose = poses.get(step.poseId);
+        if (pose) steps.push({ pose, seconds: Math.round(step.holdMinutes * 60) });
+      });
+
+      this.missingCount = sequence.steps.length - steps.length;
+      if (steps.length === 0) {
+        this.error = '序列中的動作都無法載入，請確認網路連線後再試';
+        this.setPhase('error', 0);
+        return;
+      }
+      this.start(steps);
+    } catch (error) {
+      if (error instanceof RequestAbortedError || this.controller !== controller) return;
+      this.controller = null;
+      this.error = describeError(error, '載入練習動作失敗');
+      this.setPhase('error', 0);
+    }
+  }
+
+  /**
+   * 播放動作列表 - 未指定秒數的步驟使用動作的 duration_minutes
+   */
+  play(name: string, steps: PracticeStep[], sequenceId: string | null = null) {
+    this.open(name, sequenceId);
+    this.missingCount = 0;
+    this.start(steps);
+  }
+
+  /**
+   * 關閉播放器 - 練習中關閉時先記錄已完成的部分
+   */
+  close() {
+    if (this.isPlaying) this.finish(false);
+
+    this.controller?.abort();
+    this.controller = null;
+    this.stopTimer();
+    this.releaseWakeLock();
+    this.phase = null;
+    this.session = null;
+    document.removeEventListener('keydown', this.onKeydown);
+    document.removeEventListener('visibilitychange', this.onVisibilityChange);
+    document.getElementById(PLAYER_ID)?.remove();
+  }
+
+  /**
+   * 重設狀態並顯示播放器
+   */
+  private open(name: string, sequenceId: string | null) {
+    if (this.isOpen) this.close();
+
+    this.name = name;
+    this.sequenceId = sequenceId;
+    this.steps = [];
+    this.session = null;
+    this.error = '';
+    this.paused = false;
+    document.addEventListener('keydown', this.onKeydown);
+    document.addEventListener('visibilitychange', this.onVisibilityChange);
+  }
+
+  /**
+   * 從第一個動作開始練習
+   */
+  private start(steps: PracticeStep[]) {
+    this.steps = steps.map(step => ({
+      pose: step.pose,
+      seconds: Math.max(0, Math.round(step.seconds ?? step.pose.duration_minutes * 60) || 0)
+    }));
+    this.practicedMs = this.steps.map(() => 0);
+    this.poseStartedAt = this.steps.map(() => 0);
+    this.startedAt = Date.now();
+    this.paused = false;
+    this.acquireWakeLock();
+    this.startTimer();
+    this.goTo(0);
+  }
+
+  /**
+   * 前往指定動作 - 有設定轉換倒數時先倒數
+   */
+  private goTo(index: number) {
+    this.index = Math.max(0, Math.min(this.steps.length - 1, index));
+    if (this.transitionSeconds > 0) {
+      this.setPhase('transition', this.transitionSeconds * 1000);
+    } else {
+      this.setPhase('pose', this.steps[this.index].seconds * 1000);
+    }
+  }
+
+  /**
+   * 目前階段倒數結束 - 轉換結束開始動作，動作結束前往下一個
+   */
+  private advance() {
+    if (this.phase === 'transition') {
+      this.setPhase('pose', this.steps[this.index].seconds * 1000);
+    } else if (this.index >= this.steps.length - 1) {
+      this.finish(true);
+    } else {
+      this.goTo(this.index + 1);
+    }
+  }
+
+  /**
+   * 切換階段並重新渲染
+   */
+  private setPhase(phase: PlayerPhase, durationMs: number) {
+    const now = Date.now();
+    this.phase = phase;
+    this.remainingMs = durationMs;
+    this.phaseEndsAt = now + durationMs;
+    this.lastTick = now;
+    if (phase === 'pose' && !this.poseStartedAt[this.index]) this.poseStartedAt[this.index] = now;
+    this.render();
+  }
+
+  /**
+   * 每次更新倒數 - 以時間戳計算，背景分頁計時器變慢時也不會累積誤差
+   */
+  private tick() {
+    if (!this.isPlaying || this.paused) return;
+
+    const now = Date.now();
+    if (this.phase === 'pose') {
+      const planned = this.steps[this.index].seconds * 1000;
+      this.practicedMs[this.index] = Math.min(planned, this.practicedMs[this.index] + now - this.lastTick);
+    }
+    this.lastTick = now;
+    this.remainingMs = this.phaseEndsAt - now;
+
+    if (this.remainingMs <= 0) {
+      this.advance();
+    } else {
+      this.updateCountdown();
+    }
+  }
+
+  /**
+   * 暫停或繼續
+   */
+  private togglePause() {
+    if (!this.isPlaying) return;
+
+    if (this.paused) {
+      this.paused = false;
+      this.phaseEndsAt = Date.now() + this.remainingMs;
+      this.lastTick = Date.now();
+      this.acquireWakeLock();
+    } else {
+      this.tick();
+      this.paused = true;
+      this.releaseWakeLock();
+    }
+    this.render();
+  }
+
+  /**
+   * 跳過 - 轉換倒數中直接開始動作，動作中前往下一個
+   */
+  private skip() {
+    if (!this.isPlaying) return;
+    this.tick();
+    if (!this.isPlaying) return;
+
+    if (this.phase === 'transition') {
+      this.setPhase('pose', this.steps[this.index].seconds * 1000);
+    } else if (this.index >= this.steps.length - 1) {
+      this.finish(true);
+    } else {
+      this.goTo(this.index + 1);
+    }
+  }
+
+  /**
+   * 返回上一個動作（第一個動作時重新開始）
+   */
+  private back() {
+    if (!this.isPlaying) return;
+    this.tick();
+    if (!this.isPlaying) return;
+    this.goTo(this.index - 1);
+  }
+
+  /**
+   * 結束練習並記錄摘要 - completed 表示播放到最後一個動作結束
+   */
+  private finish(completed: boolean) {
+    this.stopTimer();
+    this.releaseWakeLock();
+
+    const poses = this.steps
+      .map((step, index) => ({
+        poseId: step.pose.id,
+        title: step.pose.title,
+        category: step.pose.category,
+        difficulty: step.pose.difficulty.toUpperCase(),
+        practicedAt: this.poseStartedAt[index],
+        plannedSeconds: step.seconds,
+        practicedSeconds: Math.round(this.practicedMs[index] / 1000),
+        skipped: this.practicedMs[index] < step.seconds * 1000
+      }))
+      .filter(pose => pose.practicedSeconds > 0);
+
+    const session: PracticeSessionRecord = {
+      id: `practice_${this.startedAt.toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+      name: this.name,
+      sequenceId: this.sequenceId,
+      startedAt: this.startedAt,
+      endedAt: Date.now(),
+      totalSeconds: poses.reduce((sum, pose) => sum + pose.practicedSeconds, 0),
+      completed,
+      poses
+    };
+
+    // 沒有實際練習任何動作時不記錄
+    if (session.totalSeconds > 0) this.log.record(session);
+    this.session = session;
+    this.phase = 'finished';
+    this.render();
+  }
+
+  /**
+   * 啟動倒數計時器
+   */
+  private startTimer() {
+    this.stopTimer();
+    this.timer = window.setInterval(() => this.tick(), TICK_INTERVAL);
+  }
+
+  /**
+   * 停止倒數計時器
+   */
+  private stopTimer() {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * 保持螢幕常亮 - 瀏覽器不支援或被拒絕時略過
+   * 分頁隱藏時鎖定會自動解除，回到分頁時重新取得
+   */
+  private async acquireWakeLock() {
+    if (!('wakeLock' in navigator) || this.wakeLock) return;
+
+    try {
+      const sentinel = await navigator.wakeLock.request('screen');
+      if (!this.isPlaying || this.paused) {
+        sentinel.release().catch(() => undefined);
+        return;
+      }
+      this.wakeLock = sentinel;
+      sentinel.addEventListener('release', () => {
+        if (this.wakeLock === sentinel) this.wakeLock = null;
+      });
+    } catch (error) {
+      console.warn('無法保持螢幕常亮:', error);
+    }
+  }
+
+  /**
+   * 解除螢幕常亮
+   */
+  private releaseWakeLock() {
+    this.wakeLock?.release().catch(() => undefined);
+    this.wakeLock = null;
+  }
+
+  /**
+   * 鍵盤操作 - 空白鍵暫停/繼續，左右方向鍵返回/跳過，Esc 結束
+   */
+  private handleKeydown(e: KeyboardEvent) {
+    const target = e.target as HTMLElement;
+    if (target.closest('input, textarea, ion-input, ion-textarea, ion-select')) return;
+
+    switch (e.key) {
+      case ' ':
+        e.preventDefault();
+        this.togglePause();
+        break;
+      case 'ArrowRight':
+        this.skip();
+        break;
+      case 'ArrowLeft':
+        this.back();
+        break;
+      case 'Escape':
+        if (this.isPlaying) {
+          this.finish(false);
+        } else {
+          this.close();
+        }
+        break;
+    }
+  }
+
+  /**
+   * 取得或建立播放器容器
+   */
+  private getContainer(): HTMLElement {
+    let container = document.getElementById(PLAYER_ID);
+
+    if (!container) {
+      container = document.createElement('div');
+      container.id = PLAYER_ID;
+      container.className = 'guided-player';
+      container.style.cssText = 'position: fixed; inset: 0; z-index: 1200; overflow-y: auto; background: var(--ion-background-color, #fff);';
+      container.addEventListener('click', (e) => this.handleClick(e));
+      container.addEventListener('ionChange', (e) => {
+        const target = e.target as HTMLElement;
+        if (!target.classList.contains('guided-player-transition')) return;
+        this.transitionSeconds = Number((e as CustomEvent).detail.value) || 0;
+        localStorage.setItem(TRANSITION_KEY, String(this.transitionSeconds));
+      });
+      document.body.appendChild(container);
+    }
+
+    return container;
+  }
+
+  /**
+   * 處理按鈕點擊
+   */
+  private handleClick(e: Event) {
+    const button = (e.target as HTMLElement).closest<HTMLElement>('[data-action]');
+    if (!button) return;
+
+    switch (button.dataset.action) {
+      case 'close':
+        this.close();
+        break;
+      case 'end':
+        this.finish(false);
+        break;
+      case 'pause':
+        this.togglePause();
+        break;
+      case 'skip':
+        this.skip();
+        break;
+      case 'back':
+        this.back();
+        break;
+      case 'restart':
+        this.play(this.name, this.steps, this.sequenceId);
+        break;
+    }
+  }
+
+  /**
+   * 只更新倒數數字與進度條，避免每次更新都重建畫面
+   */
+  private updateCountdown() {
+    const container = document.getElementById(PLAYER_ID);
+    const countdown = container?.querySelector('.guided-player-countdown');
+    if (countdown) countdown.textContent = formatClock(this.remainingMs);
+
+    const progress = container?.querySelector('.guided-player-progress');
+    if (progress && this.phase === 'pose') {
+      const total = this.steps[this.index].seconds * 1000;
+      progress.setAttribute('value', String(total > 0 ? 1 - this.remainingMs / total : 1));
+    }
+  }
+
+  /**
+   * 頁首（標題、進度與關閉按鈕）
+   */
+  private renderHeader(subtitle: string): string {
+    return `
+      <ion-toolbar>
+        <ion-title>${escapeHtml(this.name)}${subtitle ? `<span style="font-size: 0.8em; opacity: 0.7;">　${escapeHtml(subtitle)}</span>` : ''}</ion-title>
+        <ion-buttons slot="end">
+          <ion-button data-action="${this.isPlaying ? 'end' : 'close'}" aria-label="${this.isPlaying ? '結束練習' : '關閉'}">
+            <ion-icon slot="icon-only" name="close-outline"></ion-icon>
+          </ion-button>
+        </ion-buttons>
+      </ion-toolbar>
+    `;
+  }
+
+  /**
+   * 渲染播放器
+   */
+  private render() {
+    switch (this.phase) {
+      case 'loading':
+        this.getContainer().innerHTML = `
+          ${this.renderHeader('')}
+          <div class="loading-container">
+            <ion-spinner name="crescent"></ion-spinner>
+            <p>載入練習動作中...</p>
+          </div>
+        `;
+        break;
+      case 'error':
+        this.getContainer().innerHTML = `
+          ${this.renderHeader('')}
+          <div class="error-container">
+            <ion-icon name="alert-circle-outline" class="error-icon"></ion-icon>
+            <h3>無法開始練習</h3>
+            <p>${escapeHtml(this.error)}</p>
+          </div>
+        `;
+        break;
+      case 'transition':
+      case 'pose':
+        this.renderStep();
+        break;
+      case 'finished':
+        this.renderSummary();
+        break;
+    }
+  }
+
+  /**
+   * 渲染目前的動作與控制按鈕
+   */
+  private renderStep() {
+    const { pose, seconds } = this.steps[this.index];
+    const transition = this.phase === 'transition';
+    const status = this.paused ? '已暫停' : transition ? '準備下一個動作' : '練習中';
+
+    this.getContainer().innerHTML = `
+      ${this.renderHeader(`第 ${this.index + 1} / ${this.steps.length} 個動作`)}
+      <ion-progress-bar class="guided-player-progress" value="${transition ? 0 : seconds > 0 ? 1 - this.remainingMs / (seconds * 1000) : 1}"
+                        ${transition ? 'type="indeterminate"' : ''}></ion-progress-bar>
+      <div class="guided-player-content ion-padding" style="max-width: 640px; margin: 0 auto; text-align: center;">
+        ${this.missingCount > 0 ? `<p style="opacity: 0.7;">有 ${this.missingCount} 個動作無法載入，已略過</p>` : ''}
+        <p class="guided-player-status">${status}</p>
+        <div class="guided-player-countdown" role="timer" aria-live="off"
+             style="font-size: 4rem; font-weight: bold; font-variant-numeric: tabular-nums;">${formatClock(this.remainingMs)}</div>
+
+        <ion-buttons style="justify-content: center;">
+          <ion-button data-action="back" aria-label="上一個動作">
+            <ion-icon slot="icon-only" name="play-skip-back-outline"></ion-icon>
+          </ion-button>
+          <ion-button data-action="pause" fill="solid" shape="round" aria-label="${this.paused ? '繼續' : '暫停'}">
+            <ion-icon slot="icon-only" name="${this.paused ? 'play' : 'pause'}"></ion-icon>
+          </ion-button>
+          <ion-button data-action="skip" aria-label="${transition ? '立即開始' : '跳過'}">
+            <ion-icon slot="icon-only" name="play-skip-forward-outline"></ion-icon>
+          </ion-button>
+        </ion-buttons>
+
+        <h1 class="guided-player-title">${escapeHtml(pose.title)}</h1>
+        ${pose.sanskrit_name ? `<p><em>${escapeHtml(pose.sanskrit_name)}</em></p>` : ''}
+        <p>${formatDuration(seconds)}</p>
+
+        ${pose.image_url ? `
+          <img class="guided-player-image" src="${escapeHtml(pose.image_url)}" alt="${escapeHtml(pose.title)}"
+               style="width: 100%; max-width: 550px; max-height: 45vh; object-fit: contain; border-radius: 16px;">
+        ` : ''}
+
+        <div style="text-align: left;">
+          ${pose.benefits.length > 0 ? `
+            <h3>好處</h3>
+            <ul>${pose.benefits.map(benefit => `<li>${escapeHtml(benefit)}</li>`).join('')}</ul>
+          ` : ''}
+          ${pose.cautions ? `
+            <h3>注意事項</h3>
+            <p>${escapeHtml(pose.cautions)}</p>
+          ` : ''}
+        </div>
+
+        <ion-item lines="none" style="max-width: 320px; margin: 0 auto;">
+          <ion-select class="guided-player-transition" label="動作間倒數" interface="popover" value="${this.transitionSeconds}">
+            ${TRANSITION_OPTIONS.map(option => `
+              <ion-select-option value="${option}">${option > 0 ? `${option} 秒` : '不倒數'}</ion-select-option>
+            `).join('')}
+          </ion-select>
+        </ion-item>
+      </div>
+    `;
+  }
+
+  /**
+   * 渲染練習摘要
+   */
+  private renderSummary() {
+    const session = this.session;
+    if (!session) return;
+
+    this.getContainer().innerHTML = `
+      ${this.renderHeader(session.completed ? '練習完成' : '提前結束')}
+      <div class="guided-player-summary ion-padding" style="max-width: 640px; margin: 0 auto;">
+        <h1>${session.completed ? '完成練習！' : '練習已結束'}</h1>
+        <p>共練習 ${formatDuration(session.totalSeconds)}，完成 ${session.poses.filter(pose => !pose.skipped).length} / ${this.steps.length} 個動作</p>
+        ${session.poses.length > 0 ? `
+          <ion-list>
+            ${session.poses.map(pose => `
+              <ion-item>
+                <ion-label>${escapeHtml(pose.title)}</ion-label>
+                <ion-note slot="end">${formatDuration(pose.practicedSeconds)}${pose.skipped ? '（未完成）' : ''}</ion-note>
+              </ion-item>
+            `).join('')}
+          </ion-list>
+        ` : '<p>這次沒有練習任何動作，不會留下紀錄</p>'}
+        <ion-button expand="block" data-action="restart">
+          <ion-icon slot="start" name="refresh-outline"></ion-icon>
+          再練一次
+        </ion-button>
+        <ion-button expand="block" fill="clear" data-action="close">完成</ion-button>
+      </div>
+    `;
+  }
+}
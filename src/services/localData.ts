@@ -1,51 +1,77 @@
 import { YogaPose, ApiResponse, QueryParams } from '../types/index.js';
-import { apiService } from './apiService.js';
+import { SEED_YOGA_POSES } from '../data/yogaPoses.js';
+import { decodeYogaPose } from './validation.js';
+import { matchesFilters } from './poseFilters.js';
+import { SearchIndex } from './searchIndex.js';
+import { sortPoses, toSortField } from './sorting.js';
+
+// 預設每頁數量（與伺服器相同）
+const DEFAULT_LIMIT = 10;
 
 /**
- * 資料適配器 - 現在使用 API 服務而不是本地檔案
- * 保持原有介面以維持向後相容性
+ * 本地資料適配器 - 使用內建資料集在記憶體中完成搜尋、分類、排序與分頁
+ * 回應格式與伺服器相同，作為離線或示範模式使用
  */
 export class LocalDataAdapter {
-  
+  private poses: YogaPose[];
+  // 內建資料集的全文索引（與伺服器資料的索引分開，兩者的 id 可能重複）
+  readonly searchIndex: SearchIndex;
+
+  constructor(poses: YogaPose[] = SEED_YOGA_POSES) {
+    // 補齊向後相容欄位，與 API 回應的資料一致
+    this.poses = poses.map(pose => decodeYogaPose(pose, 'local'));
+    this.searchIndex = new SearchIndex(this.poses);
+  }
+
   /**
-   * 獲取瑜伽動作列表（現在從 API 獲取）
+   * 獲取瑜伽動作列表
    */
-  async getYogaPoses(params: {
-    page?: number;
-    limit?: number;
-    search?: string;
-    category?: string;
-    sort?: string;
-    order?: 'asc' | 'desc';
-  } = {}): Promise<ApiResponse<YogaPose>> {
-    console.log('使用 API 服務獲取瑜伽動作:', params);
-    
-    // 將參數轉換為 QueryParams 類型
-    const queryParams: QueryParams = {
-      page: params.page,
-      limit: params.limit,
-      search: params.search,
-      category: params.category,
-      sort: params.sort,
-      order: params.order
+  async getYogaPoses(params: QueryParams = {}): Promise<ApiResponse<YogaPose>> {
+    console.log('使用本地資料獲取瑜伽動作:', params);
+
+    const page = Math.max(1, params.page || 1);
+    const limit = Math.max(1, params.limit || DEFAULT_LIMIT);
+
+    let matched = this.poses;
+
+    // 關鍵字使用全文索引（容許錯字），結果依相關度排序
+    const text = [params.search, ...(params.terms || [])].filter(Boolean).join(' ');
+    if (text) {
+      matched = this.searchIndex.search(text).map(result => result.pose);
+    }
+
+    // 分類、難度、時長、標籤、導師與排除條件
+    matched = matched.filter(pose => matchesFilters(pose, { ...params, terms: undefined }));
+
+    // 與伺服器使用相同的排序規則
+    const sortField = toSortField(params.sort);
+    if (sortField) {
+      matched = sortPoses(matched, sortField, params.order || 'asc');
+    }
+
+    const start = (page - 1) * limit;
+
+    return {
+      items: matched.slice(start, start + limit),
+      pagination: {
+        page,
+        limit,
+        total: matched.length
+      }
     };
-    
-    return await apiService.getYogaPoses(queryParams);
   }
 
   /**
-   * 取得所有分類（現在從 API 獲取）
+   * 取得所有分類
    */
   async getCategories(): Promise<string[]> {
-    console.log('使用 API 服務獲取分類');
-    return await apiService.getCategories();
+    return [...new Set(this.poses.map(pose => pose.category))].filter(Boolean);
   }
 
   /**
-   * 取得單個瑜伽動作（新增功能）
+   * 取得單個瑜伽動作
    */
   async getYogaPose(id: number): Promise<YogaPose | null> {
-    console.log('使用 API 服務獲取單個瑜伽動作:', id);
-    return await apiService.getYogaPose(id);
+    return this.poses.find(pose => pose.id === id) || null;
   }
-}
\ No newline at end of file
+}
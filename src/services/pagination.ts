@@ -0,0 +1,64 @@
+import { PaginationInfo, PagingMode } from '../types/index.js';
+
+// 每頁數量選項與預設值
+export const PAGE_SIZE_OPTIONS = [3, 6, 12, 24];
+export const DEFAULT_PAGE_SIZE = 3;
+
+// 累加模式下從網址還原時最多載入的頁數，避免分享的網址觸發大量請求
+export const MAX_APPEND_PAGES = 20;
+
+// 偏好設定鍵名
+const PAGE_SIZE_KEY = 'page_size';
+const PAGING_MODE_KEY = 'paging_mode';
+
+/**
+ * 讀取每頁數量偏好 - 不在選項內時使用預設值
+ */
+export function loadPageSize(): number {
+  const size = Number(localStorage.getItem(PAGE_SIZE_KEY));
+  return PAGE_SIZE_OPTIONS.includes(size) ? size : DEFAULT_PAGE_SIZE;
+}
+
+/**
+ * 儲存每頁數量偏好
+ */
+export function savePageSize(size: number) {
+  localStorage.setItem(PAGE_SIZE_KEY, String(size));
+}
+
+/**
+ * 讀取分頁載入方式偏好 - 預設為捲動自動載入
+ */
+export function loadPagingMode(): PagingMode {
+  const mode = localStorage.getItem(PAGING_MODE_KEY);
+  return mode === 'manual' || mode === 'pages' ? mode : 'infinite';
+}
+
+/**
+ * 儲存分頁載入方式偏好
+ */
+export function savePagingMode(mode: PagingMode) {
+  localStorage.setItem(PAGING_MODE_KEY, mode);
+}
+
+/**
+ * 總頁數（沒有資料時為 1 頁）
+ */
+export function getTotalPages(pagination: PaginationInfo): number {
+  return Math.max(1, Math.ceil(pagination.total / pagination.limit));
+}
+
+/**
+ * 是否還有下一頁 - 依據 total 判斷，總數剛好是每頁數量的倍數時不會多出空白的一頁
+ */
+export function hasNextPage(pagination: PaginationInfo): boolean {
+  return pagination.page * pagination.limit < pagination.total;
+}
+
+/**
+ * 產生「顯示第 X–Y 項，共 Z 項」的文字
+ */
+export function describeRange(from: number, to: number, total: number): string {
+  if (total === 0 || to < from) return '沒有符合條件的瑜伽動作';
+  return `顯示第 ${from}–${to} 項，共 ${total} 項`;
+}
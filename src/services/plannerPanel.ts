@@ -0,0 +1,345 @@
+import { YogaPose, PlanRequest, PracticeStep, SessionPlan } from '../types/index.js';
+import { ApiService } from './api.js';
+import { SequenceStore } from './sequences.js';
+import { planSession, randomSeed, MAX_TARGET_MINUTES } from './sessionPlanner.js';
+import { DIFFICULTY_LABELS, DIFFICULTY_LEVELS, extractFilterOptions } from './poseFilters.js';
+import { RequestAbortedError, describeError } from './errors.js';
+import { escapeHtml } from './format.js';
+
+// 面板容器 id
+const PANEL_ID = 'planner-panel';
+
+/**
+ * 將多選欄位的值轉為字串陣列
+ */
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String) : [];
+}
+
+/**
+ * 自動排課面板 - 輸入目標時間、難度上限、重點分類/標籤與排除標籤，依種子產生可重現的課表
+ * 課表可儲存為練習序列或直接開始引導練習
+ */
+export class PlannerPanel {
+  private apiService: ApiService;
+  private store: SequenceStore;
+  private onStart: (name: string, steps: PracticeStep[]) => void;
+  private controller: AbortController | null = null;
+  private library: YogaPose[] | null = null;
+  private request: PlanRequest = {
+    targetMinutes: 20,
+    maxDifficulty: 'BEGINNER',
+    focusCategories: [],
+    focusTags: [],
+    excludeTags: [],
+    seed: randomSeed()
+  };
+  private plan: SessionPlan | null = null;
+  private message: string = '';
+  private error: string = '';
+
+  /**
+   * @param onStart 點擊「開始練習」時呼叫
+   */
+  constructor(apiService: ApiService, store: SequenceStore, onStart: (name: string, steps: PracticeStep[]) => void) {
+    this.apiService = apiService;
+    this.store = store;
+    this.onStart = onStart;
+  }
+
+  /**
+   * 開啟面板 - 第一次開啟時載入動作庫
+   */
+  async open() {
+    this.message = '';
+    this.error = '';
+
+    if (this.library) {
+      this.renderForm();
+      return;
+    }
+
+    this.renderLoading();
+    this.controller?.abort();
+    const controller = new AbortController();
+    this.controller = controller;
+
+    try {
+      const library = await this.apiService.getAllYogaPoses(controller.signal);
+      if (this.controller !== controller) return;
+      this.controller = null;
+      this.library = library;
+      this.renderForm();
+    } catch (error) {
+      if (error instanceof RequestAbortedError || this.controller !== controller) return;
+      this.controller = null;
+      this.renderError(describeError(error, '載入動作庫失敗'));
+    }
+  }
+
+  /**
+   * 關閉面板
+   */
+  close() {
+    this.controller?.abort();
+    this.controller = null;
+    document.getElementById(PANEL_ID)?.remove();
+  }
+
+  /**
+   * 取得或建立面板容器
+   */
+  private getContainer(): HTMLElement {
+    let container = document.getElementById(PANEL_ID);
+
+    if (!container) {
+      container = document.createElement('div');
+      container.id = PANEL_ID;
+      container.className = 'planner-panel';
+      container.style.cssText = 'position: fixed; inset: 0; z-index: 1100; display: flex; align-items: center; justify-content: center; background: rgba(0, 0, 0, 0.4);';
+      container.addEventListener('click', (e) => this.handleClick(e));
+      container.addEventListener('ionChange', (e) => this.handleChange(e as CustomEvent));
+      document.body.appendChild(container);
+    }
+
+    return container;
+  }
+
+  /**
+   * 處理按鈕點擊
+   */
+  private handleClick(e: Event) {
+    const target = e.target as HTMLElement;
+    if (target.id === PANEL_ID) {
+      this.close();
+      return;
+    }
+
+    const button = target.closest<HTMLElement>('[data-action]');
+    if (!button) return;
+
+    switch (button.dataset.action) {
+      case 'close':
+        this.close();
+        break;
+      case 'reroll': {
+        this.request.seed = randomSeed();
+        const input = this.getContainer().querySelector('.planner-seed') as any;
+        if (input) input.value = this.request.seed;
+        this.generate();
+        break;
+      }
+      case 'save':
+        this.saveAsSequence();
+        break;
+      case 'start':
+        if (this.plan && this.plan.poses.length > 0) {
+          const name = this.planName(this.plan);
+          const steps = this.plan.poses.map(({ pose }) => ({ pose }));
+          this.close();
+          this.onStart(name, steps);
+        }
+        break;
+    }
+  }
+
+  /**
+   * 條件變更後重新排課
+   */
+  private handleChange(e: CustomEvent) {
+    const field = (e.target as HTMLElement).dataset.field;
+    const value = e.detail.value;
+
+    switch (field) {
+      case 'targetMinutes':
+        this.request.targetMinutes = Number(value);
+        break;
+      case 'maxDifficulty':
+        this.request.maxDifficulty = String(value || 'ADVANCED');
+        break;
+      case 'focusCategories':
+      case 'focusTags':
+      case 'excludeTags':
+        this.request[field] = toStringArray(value);
+        break;
+      case 'seed':
+        this.request.seed = String(value || '').trim() || randomSeed();
+        break;
+      default:
+        return;
+    }
+    this.generate();
+  }
+
+  /**
+   * 依目前條件產生課表並更新結果
+   */
+  private generate() {
+    if (!this.library) return;
+    this.plan = planSession(this.library, this.request);
+    this.message = '';
+    this.error = '';
+    this.renderResult();
+  }
+
+  /**
+   * 課表名稱 - 包含時間與種子，方便日後以相同種子重新產生
+   */
+  private planName(plan: SessionPlan): string {
+    return `${plan.request.targetMinutes} 分鐘課表（種子 ${plan.request.seed}）`;
+  }
+
+  /**
+   * 將課表儲存為新的練習序列
+   */
+  private saveAsSequence() {
+    if (!this.plan || this.plan.poses.length === 0) return;
+
+    try {
+      const sequence = this.store.create(this.planName(this.plan));
+      this.plan.poses.forEach(({ pose }) => this.store.addPose(pose, sequence.id));
+      this.message = `已儲存為練習序列「${sequence.name}」`;
+      this.error = '';
+    } catch (error) {
+      this.message = '';
+      this.error = error instanceof Error ? error.message : String(error);
+    }
+    this.renderResult();
+  }
+
+  /**
+   * 卡片外框
+   */
+  private renderCard(body: string) {
+    this.getContainer().innerHTML = `
+      <ion-card class="planner-panel-card" style="width: min(560px, 94vw); max-height: 90vh; overflow-y: auto;">
+        <ion-card-header>
+          <ion-card-title>自動排課</ion-card-title>
+        </ion-card-header>
+        <ion-card-content>
+          ${body}
+          <ion-button expand="block" fill="clear" data-action="close">關閉</ion-button>
+        </ion-card-content>
+      </ion-card>
+    `;
+  }
+
+  /**
+   * 顯示載入中
+   */
+  private renderLoading() {
+    this.renderCard(`
+      <div class="loading-container">
+        <ion-spinner name="crescent"></ion-spinner>
+        <p>載入動作庫中...</p>
+      </div>
+    `);
+  }
+
+  /**
+   * 顯示錯誤
+   */
+  private renderError(message: string) {
+    this.renderCard(`<p class="planner-error" style="color: #e53e3e;">${escapeHtml(message)}</p>`);
+  }
+
+  /**
+   * 渲染條件表單，並產生課表
+   */
+  private renderForm() {
+    const options = extractFilterOptions(this.library || []);
+    const optionList = (values: string[]) => values
+      .map(value => `<ion-select-option value="${escapeHtml(value)}">${escapeHtml(value)}</ion-select-option>`)
+      .join('');
+
+    this.renderCard(`
+      <ion-list>
+        <ion-item>
+          <ion-input data-field="targetMinutes" label="目標時間（分鐘）" type="number" min="1" max="${MAX_TARGET_MINUTES}"
+                     value="${this.request.targetMinutes}"></ion-input>
+        </ion-item>
+        <ion-item>
+          <ion-select data-field="maxDifficulty" label="難度上限" interface="popover" value="${this.request.maxDifficulty}">
+            ${DIFFICULTY_LEVELS.map(level => `<ion-select-option value="${level}">${DIFFICULTY_LABELS[level]}</ion-select-option>`).join('')}
+          </ion-select>
+        </ion-item>
+        <ion-item>
+          <ion-select data-field="focusCategories" label="重點分類" multiple="true" placeholder="不限">
+            ${optionList(options.categories)}
+          </ion-select>
+        </ion-item>
+        <ion-item>
+          <ion-select data-field="focusTags" label="重點標籤" multiple="true" placeholder="不限">
+            ${optionList(options.tags)}
+          </ion-select>
+        </ion-item>
+        <ion-item>
+          <ion-select data-field="excludeTags" label="排除標籤" multiple="true" placeholder="無">
+            ${optionList(options.tags)}
+          </ion-select>
+        </ion-item>
+        <ion-item>
+          <ion-input class="planner-seed" data-field="seed" label="種子" value="${escapeHtml(this.request.seed)}"
+                     helper-text="相同條件與種子會產生相同的課表"></ion-input>
+          <ion-button slot="end" fill="clear" data-action="reroll">
+            <ion-icon slot="start" name="shuffle-outline"></ion-icon>
+            重新產生
+          </ion-button>
+        </ion-item>
+      </ion-list>
+      <div class="planner-result"></div>
+    `);
+
+    // 多選欄位的值無法以屬性設定
+    this.getContainer().querySelectorAll<HTMLElement>('ion-select[multiple]').forEach(select => {
+      const field = select.dataset.field as 'focusCategories' | 'focusTags' | 'excludeTags';
+      (select as any).value = [...this.request[field]];
+    });
+
+    this.generate();
+  }
+
+  /**
+   * 渲染課表結果
+   */
+  private renderResult() {
+    const result = this.getContainer().querySelector('.planner-result');
+    if (!result || !this.plan) return;
+
+    const plan = this.plan;
+    result.innerHTML = `
+      <h3>課表：${plan.totalMinutes} / ${plan.request.targetMinutes} 分鐘</h3>
+      ${plan.warnings.map(warning => `
+        <ion-item lines="none" color="warning">
+          <ion-icon slot="start" name="warning-outline"></ion-icon>
+          <ion-label class="ion-text-wrap">${escapeHtml(warning)}</ion-label>
+        </ion-item>
+      `).join('')}
+      ${plan.poses.length > 0 ? `
+        <ion-list>
+          ${plan.poses.map(({ pose, phase }, index) => `
+            <ion-item>
+              <ion-label>
+                <h3>${index + 1}. ${escapeHtml(pose.title)}</h3>
+                <p>${escapeHtml(phase)}・${escapeHtml(pose.category)}・${escapeHtml(DIFFICULTY_LABELS[pose.difficulty.toUpperCase()] || pose.difficulty)}</p>
+              </ion-label>
+              <ion-note slot="end">${pose.duration_minutes} 分鐘</ion-note>
+            </ion-item>
+          `).join('')}
+        </ion-list>
+        ${this.message ? `<p class="planner-message" style="color: #38a169;">${escapeHtml(this.message)}</p>` : ''}
+        ${this.error ? `<p class="planner-error" style="color: #e53e3e;">${escapeHtml(this.error)}</p>` : ''}
+        <div style="display: flex; gap: 8px;">
+          <ion-button fill="outline" data-action="save" style="flex: 1;">
+            <ion-icon slot="start" name="save-outline"></ion-icon>
+            儲存為序列
+          </ion-button>
+          <ion-button data-action="start" style="flex: 1;">
+            <ion-icon slot="start" name="play-outline"></ion-icon>
+            開始練習
+          </ion-button>
+        </div>
+      ` : ''}
+    `;
+  }
+}
@@ -0,0 +1,284 @@
+import { YogaPose } from '../types/index.js';
+import { ApiService } from './api.js';
+import { ApiRequestError, RequestAbortedError, describeError } from './errors.js';
+import { escapeHtml } from './format.js';
+
+// 詳細頁容器 id
+const DETAIL_ID = 'pose-detail';
+
+/**
+ * 將 YouTube URL 轉換為嵌入格式
+ */
+export function convertToEmbedUrl(url: string): string {
+  if (url.includes('youtube.com/watch?v=')) {
+    const videoId = url.split('v=')[1].split('&')[0];
+    return `https://www.youtube.com/embed/${videoId}`;
+  }
+  if (url.includes('youtu.be/')) {
+    const videoId = url.split('youtu.be/')[1].split(/[?&]/)[0];
+    return `https://www.youtube.com/embed/${videoId}`;
+  }
+  return url;
+}
+
+/**
+ * 格式化發布日期，無效日期時回傳 null
+ */
+function formatDate(value: string): string | null {
+  const date = new Date(value);
+  return value && !Number.isNaN(date.getTime()) ? date.toLocaleDateString('zh-TW') : null;
+}
+
+/**
+ * 瑜伽動作詳細頁 - 以全螢幕圖層覆蓋在列表上方
+ * 列表保持原狀，返回時即回到原本的捲動位置
+ */
+export class PoseDetailView {
+  private apiService: ApiService;
+  private onBack: () => void;
+  private onAddToSequence: (pose: YogaPose) => void;
+  private controller: AbortController | null = null;
+  private currentId: number | null = null;
+  private currentPose: YogaPose | null = null;
+
+  constructor(apiService: ApiService, onBack: () => void, onAddToSequence: (pose: YogaPose) => void) {
+    this.apiService = apiService;
+    this.onBack = onBack;
+    this.onAddToSequence = onAddToSequence;
+  }
+
+  /**
+   * 目前是否顯示詳細頁
+   */
+  get isOpen(): boolean {
+    return this.currentId !== null;
+  }
+
+  /**
+   * 顯示指定 id 的瑜伽動作
+   */
+  async show(id: number) {
+    if (this.currentId === id) return;
+
+    this.controller?.abort();
+    const controller = new AbortController();
+    this.controller = controller;
+    this.currentId = id;
+    this.currentPose = null;
+
+    const container = this.getContainer();
+    container.style.display = 'block';
+    container.scrollTop = 0;
+
+    if (!Number.isInteger(id)) {
+      this.renderNotFound();
+      return;
+    }
+
+    this.renderLoading();
+
+    try {
+      const pose = await this.apiService.getYogaPose(id, {
+        signal: controller.signal,
+        onRevalidate: (fresh) => {
+          if (this.currentId === id) this.render(fresh);
+        }
+      });
+      if (this.controller !== controller) return;
+
+      if (pose) {
+        this.render(pose);
+      } else {
+        this.renderNotFound();
+      }
+    } catch (error) {
+      if (error instanceof RequestAbortedError || this.controller !== controller) return;
+      this.renderError(error, id);
+    }
+  }
+
+  /**
+   * 關閉詳細頁並取消進行中的請求
+   */
+  hide() {
+    this.controller?.abort();
+    this.controller = null;
+    this.currentId = null;
+    this.currentPose = null;
+
+    const container = document.getElementById(DETAIL_ID);
+    if (container) {
+      container.style.display = 'none';
+      container.innerHTML = '';
+    }
+  }
+
+  /**
+   * 取得或建立詳細頁容器
+   */
+  private getContainer(): HTMLElement {
+    let container = document.getElementById(DETAIL_ID);
+
+    if (!container) {
+      container = document.createElement('div');
+      container.id = DETAIL_ID;
+      container.className = 'pose-detail';
+      container.style.cssText = 'position: fixed; inset: 0; z-index: 1000; overflow-y: auto; background: var(--ion-background-color, #fff);';
+      container.addEventListener('click', (e) => {
+        const target = e.target as HTMLElement;
+        if (target.closest('.pose-detail-back')) this.onBack();
+        if (target.closest('.pose-detail-add-sequence') && this.currentPose) this.onAddToSequence(this.currentPose);
+      });
+      document.body.appendChild(container);
+    }
+
+    return container;
+  }
+
+  /**
+   * 頁首（返回按鈕與標題）
+   */
+  private renderHeader(title: string): string {
+    return `
+      <ion-toolbar>
+        <ion-buttons slot="start">
+          <ion-button class="pose-detail-back">
+            <ion-icon slot="start" name="arrow-back-outline"></ion-icon>
+            返回列表
+          </ion-button>
+        </ion-buttons>
+        <ion-title>${escapeHtml(title)}</ion-title>
+      </ion-toolbar>
+    `;
+  }
+
+  /**
+   * 顯示載入中
+   */
+  private renderLoading() {
+    this.getContainer().innerHTML = `
+      ${this.renderHeader('載入中')}
+      <div class="loading-container">
+        <ion-spinner name="crescent"></ion-spinner>
+        <p>載入瑜伽動作中...</p>
+      </div>
+    `;
+  }
+
+  /**
+   * 顯示找不到資料
+   */
+  private renderNotFound() {
+    this.getContainer().innerHTML = `
+      ${this.renderHeader('找不到動作')}
+      <div class="error-container">
+        <ion-icon name="help-circle-outline" class="error-icon"></ion-icon>
+        <h3>找不到這個瑜伽動作</h3>
+        <p>連結可能已失效或動作已被移除</p>
+      </div>
+    `;
+  }
+
+  /**
+   * 顯示錯誤 - 可重試的錯誤提供重試按鈕
+   */
+  private renderError(error: unknown, id: number) {
+    const canRetry = !(error instanceof ApiRequestError) || error.retryable;
+    const container = this.getContainer();
+
+    container.innerHTML = `
+      ${this.renderHeader('載入失敗')}
+      <div class="error-container">
+        <ion-icon name="alert-circle-outline" class="error-icon"></ion-icon>
+        <h3>載入失敗</h3>
+        <p>${escapeHtml(describeError(error, '載入瑜伽動作失敗'))}</p>
+        ${canRetry ? `
+          <ion-button fill="outline" class="pose-detail-retry">
+            <ion-icon slot="start" name="refresh-outline"></ion-icon>
+            重試
+          </ion-button>
+        ` : ''}
+      </div>
+    `;
+
+    container.querySelector('.pose-detail-retry')?.addEventListener('click', () => {
+      this.currentId = null;
+      this.show(id);
+    });
+  }
+
+  /**
+   * 顯示瑜伽動作的所有欄位
+   */
+  private render(pose: YogaPose) {
+    const published = formatDate(pose.published_at);
+    this.currentPose = pose;
+
+    this.getContainer().innerHTML = `
+      ${this.renderHeader(pose.title)}
+      <div class="pose-detail-content ion-padding">
+        <h1 class="pose-detail-title">${escapeHtml(pose.title)}</h1>
+        ${pose.sanskrit_name ? `<p class="pose-detail-sanskrit"><em>${escapeHtml(pose.sanskrit_name)}</em></p>` : ''}
+
+        <div class="pose-detail-meta">
+          ${pose.category ? `<ion-chip>${escapeHtml(pose.category)}</ion-chip>` : ''}
+          ${pose.difficulty ? `<ion-chip>${escapeHtml(pose.difficulty)}</ion-chip>` : ''}
+          ${pose.duration_minutes ? `<ion-chip>${pose.duration_minutes} 分鐘</ion-chip>` : ''}
+        </div>
+
+        <ion-button fill="outline" size="small" class="pose-detail-add-sequence">
+          <ion-icon slot="start" name="add-circle-outline"></ion-icon>
+          加入序列
+        </ion-button>
+
+        ${pose.image_url ? `
+          <img class="pose-detail-image" src="${escapeHtml(pose.image_url)}" alt="${escapeHtml(pose.title)}"
+               style="width: 100%; max-width: 550px; border-radius: 16px;">
+        ` : ''}
+
+        ${pose.video_url ? `
+          <div class="pose-detail-video" style="position: relative; max-width: 550px; aspect-ratio: 16 / 9;">
+            <iframe src="${escapeHtml(convertToEmbedUrl(pose.video_url))}"
+                    style="width: 100%; height: 100%; border: 0; border-radius: 16px;"
+                    allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+                    allowfullscreen>
+            </iframe>
+          </div>
+        ` : ''}
+
+        <h3>說明</h3>
+        <p class="pose-detail-description">${escapeHtml(pose.description || '暫無說明')}</p>
+
+        <h3>好處</h3>
+        ${pose.benefits.length > 0 ? `
+          <ul class="pose-detail-benefits">
+            ${pose.benefits.map(benefit => `<li>${escapeHtml(benefit)}</li>`).join('')}
+          </ul>
+        ` : '<p>暫無資訊</p>'}
+
+        <h3>要點</h3>
+        <p>${escapeHtml(pose.keys || '暫無要點資訊')}</p>
+
+        <h3>注意事項</h3>
+        <p>${escapeHtml(pose.cautions || '暫無注意事項')}</p>
+
+        ${pose.tags.length > 0 ? `
+          <div class="tag-container">
+            ${pose.tags.map(tag => `<ion-chip size="small">${escapeHtml(tag)}</ion-chip>`).join('')}
+          </div>
+        ` : ''}
+
+        <ion-list lines="none" class="pose-detail-info">
+          <ion-item>
+            <ion-label>導師</ion-label>
+            <ion-note slot="end">${escapeHtml(pose.instructor || '未提供')}</ion-note>
+          </ion-item>
+          <ion-item>
+            <ion-label>發布日期</ion-label>
+            <ion-note slot="end">${published || '未提供'}</ion-note>
+          </ion-item>
+        </ion-list>
+      </div>
+    `;
+  }
+}
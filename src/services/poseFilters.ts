@@ -0,0 +1,106 @@
+import { YogaPose, QueryParams, FilterOptions } from '../types/index.js';
+import { isLocalOnlySort } from './sorting.js';
+
+// 難度選項（由淺到深）
+export const DIFFICULTY_LEVELS = ['BEGINNER', 'INTERMEDIATE', 'ADVANCED'];
+
+// 難度顯示名稱
+export const DIFFICULTY_LABELS: Record<string, string> = {
+  BEGINNER: '初級',
+  INTERMEDIATE: '中級',
+  ADVANCED: '高級'
+};
+
+/**
+ * 轉為 API 支援的查詢參數 - 只選一個分類時以 category 送出，其餘條件與 API 不支援的排序在本地處理
+ */
+export function toServerParams(params: QueryParams): QueryParams {
+  const { page, limit, search } = params;
+  const categories = params.categories || [];
+  const category = params.category || (categories.length === 1 ? categories[0] : undefined);
+  const serverSort = isLocalOnlySort(params.sort) ? {} : { sort: params.sort, order: params.order };
+
+  return { page, limit, search, category, ...serverSort };
+}
+
+/**
+ * 是否有 API 不支援、需要在本地過濾或排序的條件
+ */
+export function hasLocalOnlyFilters(params: QueryParams): boolean {
+  const lists = [
+    params.difficulty, params.tags, params.terms, params.excludeTerms,
+    params.excludeTags, params.excludeCategories, params.excludeDifficulties, params.excludeInstructors
+  ];
+
+  return (params.categories?.length || 0) > 1 ||
+    lists.some(list => (list?.length || 0) > 0) ||
+    params.minDuration !== undefined ||
+    params.maxDuration !== undefined ||
+    Boolean(params.instructor) ||
+    isLocalOnlySort(params.sort);
+}
+
+/**
+ * 關鍵字比對 - 不分大小寫比對名稱、梵文名、說明、好處與標籤
+ */
+export function matchesText(pose: YogaPose, keyword: string): boolean {
+  const normalized = keyword.trim().toLowerCase();
+  if (!normalized) return true;
+
+  return [pose.title, pose.sanskrit_name, pose.description, ...pose.benefits, ...pose.tags]
+    .some(field => field.toLowerCase().includes(normalized));
+}
+
+/**
+ * 判斷瑜伽動作是否符合分類、難度、時長、標籤、導師與查詢語法的本地條件（不含 search 關鍵字）
+ */
+export function matchesFilters(pose: YogaPose, params: QueryParams): boolean {
+  if (params.category && pose.category !== params.category) return false;
+
+  if (params.categories?.length && !params.categories.includes(pose.category)) return false;
+
+  if (params.difficulty?.length && !params.difficulty.includes(pose.difficulty.toUpperCase())) return false;
+
+  if (params.minDuration !== undefined && pose.duration_minutes < params.minDuration) return false;
+  if (params.maxDuration !== undefined && pose.duration_minutes > params.maxDuration) return false;
+
+  if (params.tags?.length) {
+    const poseTags = pose.tags.map(tag => tag.toLowerCase());
+    const matches = (tag: string) => poseTags.includes(tag.toLowerCase());
+    const matched = params.tagMode === 'and' ? params.tags.every(matches) : params.tags.some(matches);
+    if (!matched) return false;
+  }
+
+  const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+  if (params.instructor && !sameText(pose.instructor, params.instructor)) return false;
+
+  if (params.terms?.some(term => !matchesText(pose, term))) return false;
+  if (params.excludeTerms?.some(term => matchesText(pose, term))) return false;
+  if (params.excludeTags?.some(tag => pose.tags.some(poseTag => sameText(poseTag, tag)))) return false;
+  if (params.excludeCategories?.some(category => sameText(pose.category, category))) return false;
+  if (params.excludeDifficulties?.includes(pose.difficulty.toUpperCase())) return false;
+  if (params.excludeInstructors?.some(instructor => sameText(pose.instructor, instructor))) return false;
+
+  return true;
+}
+
+/**
+ * 從瑜伽動作整理出各過濾條件的可選值
+ */
+export function extractFilterOptions(poses: YogaPose[]): FilterOptions {
+  const unique = (values: string[]) => [...new Set(values.filter(Boolean))];
+  const difficulties = unique(poses.map(pose => pose.difficulty.toUpperCase()));
+
+  return {
+    categories: unique(poses.map(pose => pose.category)),
+    // 已知難度依順序排列，未知難度放在最後
+    difficulties: [
+      ...DIFFICULTY_LEVELS.filter(level => difficulties.includes(level)),
+      ...difficulties.filter(level => !DIFFICULTY_LEVELS.includes(level))
+    ],
+    tags: unique(poses.flatMap(pose => pose.tags)).sort((a, b) => a.localeCompare(b)),
+    instructors: unique(poses.map(pose => pose.instructor)).sort((a, b) => a.localeCompare(b)),
+    maxDuration: Math.max(0, ...poses.map(pose => pose.duration_minutes))
+  };
+}
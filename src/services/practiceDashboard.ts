@@ -0,0 +1,233 @@
+import { PracticeSessionRecord, PracticeStats } from '../types/index.js';
+import { PracticeLog } from './practiceLog.js';
+import { computePracticeStats } from './practiceStats.js';
+import { DIFFICULTY_LABELS, DIFFICULTY_LEVELS } from './poseFilters.js';
+import { navigate } from './router.js';
+import { appEvents } from './eventBus.js';
+import { escapeHtml, formatMinutes } from './format.js';
+
+// 儀表板容器 id
+const DASHBOARD_ID = 'practice-dashboard';
+
+// 顯示的最近練習筆數
+const RECENT_COUNT = 10;
+
+/**
+ * 水平長條 - 以最大值為 100%
+ */
+function renderBar(label: string, value: number, max: number, text: string): string {
+  const width = max > 0 ? Math.round((value / max) * 100) : 0;
+  return `
+    <div class="practice-bar" style="margin: 6px 0;">
+      <div style="display: flex; justify-content: space-between; font-size: 0.9em;">
+        <span>${escapeHtml(label)}</span>
+        <span>${escapeHtml(text)}</span>
+      </div>
+      <div style="height: 8px; border-radius: 4px; background: rgba(0, 0, 0, 0.08);">
+        <div style="width: ${width}%; height: 100%; border-radius: 4px; background: var(--ion-color-primary, #3880ff);"></div>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * 練習紀錄儀表板 - 每週練習時間、連續天數、分類與難度分佈、最常練習的動作與最近的練習
+ * 以全螢幕圖層顯示，可匯出紀錄為 JSON 檔案
+ */
+export class PracticeDashboard {
+  private log: PracticeLog;
+  private getBookmarkedIds: () => number[];
+  private isOpen: boolean = false;
+
+  /**
+   * @param getBookmarkedIds 取得目前使用者的收藏（用於計算收藏動作的練習進度）
+   */
+  constructor(log: PracticeLog, getBookmarkedIds: () => number[]) {
+    this.log = log;
+    this.getBookmarkedIds = getBookmarkedIds;
+    appEvents.on('practice:recorded', () => {
+      if (this.isOpen) this.render();
+    });
+  }
+
+  /**
+   * 開啟儀表板
+   */
+  open() {
+    this.isOpen = true;
+    this.render();
+    this.getContainer().scrollTop = 0;
+  }
+
+  /**
+   * 關閉儀表板
+   */
+  close() {
+    this.isOpen = false;
+    document.getElementById(DASHBOARD_ID)?.remove();
+  }
+
+  /**
+   * 取得或建立儀表板容器
+   */
+  private getContainer(): HTMLElement {
+    let container = document.getElementById(DASHBOARD_ID);
+
+    if (!container) {
+      container = document.createElement('div');
+      container.id = DASHBOARD_ID;
+      container.className = 'practice-dashboard';
+      container.style.cssText = 'position: fixed; inset: 0; z-index: 1000; overflow-y: auto; background: var(--ion-background-color, #fff);';
+      container.addEventListener('click', (e) => this.handleClick(e));
+      document.body.appendChild(container);
+    }
+
+    return container;
+  }
+
+  /**
+   * 處理按鈕點擊
+   */
+  private handleClick(e: Event) {
+    const button = (e.target as HTMLElement).closest<HTMLElement>('[data-action]');
+    if (!button) return;
+
+    switch (button.dataset.action) {
+      case 'close':
+        this.close();
+        break;
+      case 'export':
+        this.exportHistory();
+        break;
+      case 'pose':
+        this.close();
+        navigate({ name: 'pose', id: Number(button.dataset.poseId) });
+        break;
+    }
+  }
+
+  /**
+   * 下載練習紀錄
+   */
+  private exportHistory() {
+    const blob = new Blob([this.log.exportJson()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `yoga-practice-history-${new Date().toISOString().slice(0, 10)}.json`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * 渲染儀表板
+   */
+  private render() {
+    const sessions = this.log.list();
+    const stats = computePracticeStats(sessions);
+
+    this.getContainer().innerHTML = `
+      <ion-toolbar>
+        <ion-buttons slot="start">
+          <ion-button data-action="close">
+            <ion-icon slot="start" name="arrow-back-outline"></ion-icon>
+            返回列表
+          </ion-button>
+        </ion-buttons>
+        <ion-title>練習紀錄</ion-title>
+        <ion-buttons slot="end">
+          <ion-button data-action="export" ${sessions.length === 0 ? 'disabled' : ''}>
+            <ion-icon slot="start" name="download-outline"></ion-icon>
+            匯出
+          </ion-button>
+        </ion-buttons>
+      </ion-toolbar>
+      <div class="practice-dashboard-content ion-padding" style="max-width: 720px; margin: 0 auto;">
+        ${sessions.length === 0 ? `
+          <div class="error-container">
+            <ion-icon name="barbell-outline" class="error-icon"></ion-icon>
+            <h3>還沒有練習紀錄</h3>
+            <p>在「練習序列」面板點擊「開始練習」，完成的練習會記錄在這裡</p>
+          </div>
+        ` : this.renderStats(stats, sessions)}
+      </div>
+    `;
+  }
+
+  /**
+   * 渲染統計內容
+   */
+  private renderStats(stats: PracticeStats, sessions: PracticeSessionRecord[]): string {
+    const weeklyMax = Math.max(...stats.weekly.map(week => week.minutes));
+    const categories = Object.entries(stats.byCategory).sort((a, b) => b[1] - a[1]);
+    const categoryMax = Math.max(0, ...categories.map(([, minutes]) => minutes));
+    const difficulties = [...DIFFICULTY_LEVELS, ...Object.keys(stats.byDifficulty).filter(key => !DIFFICULTY_LEVELS.includes(key))]
+      .filter(key => stats.byDifficulty[key] > 0);
+    const difficultyMax = Math.max(0, ...difficulties.map(key => stats.byDifficulty[key]));
+
+    return `
+      <div class="practice-summary" style="display: flex; flex-wrap: wrap; gap: 4px;">
+        <ion-chip>共 ${stats.totalSessions} 次練習</ion-chip>
+        <ion-chip>總時間 ${formatMinutes(stats.totalMinutes)}</ion-chip>
+        <ion-chip>練習 ${stats.practiceDays} 天</ion-chip>
+        <ion-chip color="success">目前連續 ${stats.currentStreak} 天</ion-chip>
+        <ion-chip>最長連續 ${stats.longestStreak} 天</ion-chip>
+      </div>
+
+      <h3>每週練習時間</h3>
+      ${stats.weekly.map(week => {
+        const start = new Date(week.weekStart);
+        return renderBar(`${start.getMonth() + 1}/${start.getDate()} 當週`, week.minutes, weeklyMax, `${formatMinutes(week.minutes)}（${week.sessions} 次）`);
+      }).join('')}
+
+      <h3>各分類</h3>
+      ${categories.map(([category, minutes]) => renderBar(category, minutes, categoryMax, formatMinutes(minutes))).join('')}
+
+      <h3>各難度</h3>
+      ${difficulties.map(key => renderBar(DIFFICULTY_LABELS[key] || '未知', stats.byDifficulty[key], difficultyMax, formatMinutes(stats.byDifficulty[key]))).join('')}
+
+      ${this.renderBookmarkProgress(sessions)}
+
+      <h3>最常練習的動作</h3>
+      <ion-list>
+        ${stats.topPoses.map((pose, index) => `
+          <ion-item button detail data-action="pose" data-pose-id="${pose.poseId}">
+            <ion-label>${index + 1}. ${escapeHtml(pose.title)}</ion-label>
+            <ion-note slot="end">${pose.count} 次・${formatMinutes(pose.minutes)}</ion-note>
+          </ion-item>
+        `).join('')}
+      </ion-list>
+
+      <h3>最近的練習</h3>
+      <ion-list>
+        ${sessions.slice(0, RECENT_COUNT).map(session => `
+          <ion-item>
+            <ion-label>
+              <h3>${escapeHtml(session.name)}${session.completed ? '' : '（提前結束）'}</h3>
+              <p>${new Date(session.startedAt).toLocaleString('zh-TW')}・${session.poses.length} 個動作</p>
+            </ion-label>
+            <ion-note slot="end">${formatMinutes(session.totalSeconds / 60)}</ion-note>
+          </ion-item>
+        `).join('')}
+      </ion-list>
+    `;
+  }
+
+  /**
+   * 收藏動作的練習進度 - 已練習過的收藏動作數量
+   */
+  private renderBookmarkProgress(sessions: PracticeSessionRecord[]): string {
+    const bookmarkedIds = this.getBookmarkedIds();
+    if (bookmarkedIds.length === 0) return '';
+
+    const practiced = new Set(sessions.flatMap(session => session.poses.map(pose => pose.poseId)));
+    const count = bookmarkedIds.filter(id => practiced.has(id)).length;
+
+    return `
+      <h3>收藏動作進度</h3>
+      ${renderBar('已練習的收藏動作', count, bookmarkedIds.length, `${count} / ${bookmarkedIds.length}`)}
+    `;
+  }
+}
@@ -0,0 +1,80 @@
+import { PracticeSessionRecord } from '../types/index.js';
+import { appEvents } from './eventBus.js';
+
+// 保留的練習紀錄數量上限（超過時刪除最舊的紀錄）
+const MAX_SESSIONS = 500;
+
+/**
+ * 練習紀錄 - 依使用者分開存放在 localStorage（未登入時使用匿名空間）
+ * 依結束時間由新到舊排列；新增紀錄後發出 practice:recorded 事件
+ */
+export class PracticeLog {
+  private userId: number | null = null;
+  private sessions: PracticeSessionRecord[] = this.load();
+
+  /**
+   * 切換使用者並載入其練習紀錄
+   */
+  setUser(userId: number | null) {
+    if (userId === this.userId) return;
+    this.userId = userId;
+    this.sessions = this.load();
+  }
+
+  /**
+   * 取得所有練習紀錄（由新到舊）
+   */
+  list(): PracticeSessionRecord[] {
+    return this.sessions.map(session => ({ ...session, poses: session.poses.map(pose => ({ ...pose })) }));
+  }
+
+  /**
+   * 新增一筆練習紀錄
+   */
+  record(session: PracticeSessionRecord) {
+    this.sessions = [session, ...this.sessions.filter(entry => entry.id !== session.id)].slice(0, MAX_SESSIONS);
+    this.save();
+    appEvents.emit('practice:recorded', { session });
+  }
+
+  /**
+   * 匯出練習紀錄為 JSON 字串
+   */
+  exportJson(): string {
+    return JSON.stringify({
+      exportedAt: new Date().toISOString(),
+      userId: this.userId,
+      sessions: this.sessions
+    }, null, 2);
+  }
+
+  /**
+   * 目前使用者的儲存鍵
+   */
+  private get storageKey(): string {
+    return `practice_history_${this.userId ?? 'anonymous'}`;
+  }
+
+  /**
+   * 從 localStorage 載入，格式錯誤時視為沒有紀錄
+   */
+  private load(): PracticeSessionRecord[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.storageKey) || '[]');
+      return Array.isArray(stored)
+        ? stored.filter(entry => entry && typeof entry.id === 'string' && Array.isArray(entry.poses))
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * 儲存到 localStorage
+   */
+  private save() {
+    localStorage.setItem(this.storageKey, JSON.stringify(this.sessions));
+  }
+}
+
+export const practiceLog = new PracticeLog();
@@ -0,0 +1,128 @@
+import { PracticeSessionRecord, PracticeStats, PosePracticeCount, WeeklyPractice } from '../types/index.js';
+
+// 一天的毫秒數
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 取得時間戳所在的本地日期序號（自 1970-01-01 起的天數），不受日光節約時間影響
+ */
+function dayNumber(timestamp: number): number {
+  const date = new Date(timestamp);
+  return Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS);
+}
+
+/**
+ * 日期序號所在週的星期一
+ */
+function weekStartDay(day: number): number {
+  const weekday = new Date(day * DAY_MS).getUTCDay();
+  return day - ((weekday + 6) % 7);
+}
+
+/**
+ * 日期序號轉為該日本地 00:00 的時間戳
+ */
+function dayToTimestamp(day: number): number {
+  const date = new Date(day * DAY_MS);
+  return new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()).getTime();
+}
+
+/**
+ * 計算連續練習天數 - 目前連續天數在今天尚未練習時從昨天起算
+ */
+function computeStreaks(days: Set<number>, today: number): { current: number; longest: number } {
+  let current = 0;
+  for (let day = days.has(today) ? today : today - 1; days.has(day); day--) {
+    current++;
+  }
+
+  let longest = 0;
+  let run = 0;
+  let previous: number | null = null;
+  [...days].sort((a, b) => a - b).forEach(day => {
+    run = previous !== null && day === previous + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  });
+
+  return { current, longest };
+}
+
+/**
+ * 四捨五入到一位小數
+ */
+function round(minutes: number): number {
+  return Math.round(minutes * 10) / 10;
+}
+
+/**
+ * 由練習紀錄計算統計：每週時間、連續天數、分類與難度分佈，以及最常練習的動作
+ */
+export function computePracticeStats(
+  sessions: PracticeSessionRecord[],
+  options: { now?: number; weeks?: number; topCount?: number } = {}
+): PracticeStats {
+  const now = options.now ?? Date.now();
+  const weeks = options.weeks ?? 8;
+  const topCount = options.topCount ?? 5;
+  const today = dayNumber(now);
+  const firstWeek = weekStartDay(today) - (weeks - 1) * 7;
+
+  const days = new Set<number>();
+  const weekly = new Map<number, WeeklyPractice>();
+  const byCategory: Record<string, number> = {};
+  const byDifficulty: Record<string, number> = {};
+  const poses = new Map<number, PosePracticeCount>();
+  let totalSeconds = 0;
+
+  for (let week = firstWeek; week <= weekStartDay(today); week += 7) {
+    weekly.set(week, { weekStart: dayToTimestamp(week), minutes: 0, sessions: 0 });
+  }
+
+  sessions.forEach(session => {
+    const day = dayNumber(session.startedAt);
+    days.add(day);
+    totalSeconds += session.totalSeconds;
+
+    const week = weekly.get(weekStartDay(day));
+    if (week) {
+      week.minutes += session.totalSeconds / 60;
+      week.sessions++;
+    }
+
+    session.poses.forEach(pose => {
+      const minutes = pose.practicedSeconds / 60;
+      const category = pose.category || '未分類';
+      const difficulty = pose.difficulty || 'UNKNOWN';
+      byCategory[category] = (byCategory[category] || 0) + minutes;
+      byDifficulty[difficulty] = (byDifficulty[difficulty] || 0) + minutes;
+
+      const entry = poses.get(pose.poseId) || { poseId: pose.poseId, title: pose.title, count: 0, minutes: 0 };
+      entry.count++;
+      entry.minutes += minutes;
+      poses.set(pose.poseId, entry);
+    });
+  });
+
+  const roundAll = (entries: Record<string, number>) => {
+    Object.keys(entries).forEach(key => { entries[key] = round(entries[key]); });
+    return entries;
+  };
+
+  const streaks = computeStreaks(days, today);
+
+  return {
+    totalSessions: sessions.length,
+    totalMinutes: round(totalSeconds / 60),
+    practiceDays: days.size,
+    currentStreak: streaks.current,
+    longestStreak: streaks.longest,
+    weekly: [...weekly.values()].map(week => ({ ...week, minutes: round(week.minutes) })),
+    byCategory: roundAll(byCategory),
+    byDifficulty: roundAll(byDifficulty),
+    topPoses: [...poses.values()]
+      .sort((a, b) => b.count - a.count || b.minutes - a.minutes || a.title.localeCompare(b.title, 'zh-TW'))
+      .slice(0, topCount)
+      .map(entry => ({ ...entry, minutes: round(entry.minutes) }))
+  };
+}
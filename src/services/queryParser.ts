@@ -0,0 +1,228 @@
+import { FilterState, QueryParams } from '../types/index.js';
+import { DIFFICULTY_LEVELS, DIFFICULTY_LABELS } from './poseFilters.js';
+import { editDistance } from './searchIndex.js';
+
+// 支援的欄位
+const FIELDS = ['tag', 'difficulty', 'duration', 'category', 'instructor'];
+
+// 查詢語法的單元：可選的 - 前綴、可選的欄位名稱、引號片語或一般文字（未閉合的引號延伸到結尾）
+const TOKEN_PATTERN = /(-?)(?:([A-Za-z_]+):)?(?:"([^"]*)"?|(\S+))/g;
+
+// 時長條件，例如 <15、>=10、10-20、15
+const DURATION_PATTERN = /^(?:(<=|>=|<|>)?(\d+)|(\d+)-(\d+))$/;
+
+/**
+ * 查詢語法中可由下拉選單表示的條件
+ */
+export type StructuredFilters = Pick<FilterState, 'categories' | 'difficulties' | 'minDuration' | 'maxDuration' | 'tags' | 'instructor'>;
+
+/**
+ * 解析結果
+ * filters 為可同步到下拉選單的條件，residual 為其餘的文字（關鍵字、片語與排除條件）
+ */
+export interface ParsedSearchQuery {
+  filters: StructuredFilters;
+  residual: string;
+  errors: string[];
+}
+
+/**
+ * 查詢單元
+ */
+interface QueryToken {
+  negated: boolean;
+  field: string | null;
+  value: string;
+  quoted: boolean;
+}
+
+/**
+ * 將查詢字串切成單元
+ */
+function tokenize(input: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [, negation, field, phrase, word] = match;
+    const value = (phrase ?? word ?? '').trim();
+    if (!value) continue;
+
+    tokens.push({
+      negated: negation === '-',
+      field: field ? field.toLowerCase() : null,
+      value,
+      quoted: phrase !== undefined
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * 將單元轉回查詢字串 - 含空白或引號的值加上引號
+ */
+function formatToken(token: QueryToken): string {
+  const value = token.quoted || /\s/.test(token.value) ? `"${token.value.replace(/"/g, '')}"` : token.value;
+  return `${token.negated ? '-' : ''}${token.field ? `${token.field}:` : ''}${value}`;
+}
+
+/**
+ * 解析難度值 - 接受英文或中文名稱
+ */
+function parseDifficulty(value: string): string | null {
+  const upper = value.toUpperCase();
+  if (DIFFICULTY_LEVELS.includes(upper)) return upper;
+  return DIFFICULTY_LEVELS.find(level => DIFFICULTY_LABELS[level] === value) || null;
+}
+
+/**
+ * 解析時長條件為 [最小值, 最大值]（分鐘，包含端點）
+ */
+function parseDuration(value: string): [number | null, number | null] | null {
+  const match = value.match(DURATION_PATTERN);
+  if (!match) return null;
+
+  const [, operator, amount, from, to] = match;
+  if (from !== undefined) {
+    const [min, max] = [Number(from), Number(to)].sort((a, b) => a - b);
+    return [min, max];
+  }
+
+  const minutes = Number(amount);
+  switch (operator) {
+    case '<': return [null, Math.max(0, minutes - 1)];
+    case '<=': return [null, minutes];
+    case '>': return [minutes + 1, null];
+    case '>=': return [minutes, null];
+    default: return [minutes, minutes];
+  }
+}
+
+/**
+ * 解析查詢字串，例如 tag:balance difficulty:beginner duration:<15 category:站立式 "downward dog" -tag:inversion
+ * 無法辨識的欄位或值會被略過並回報錯誤
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const filters: StructuredFilters = {
+    categories: [],
+    difficulties: [],
+    minDuration: null,
+    maxDuration: null,
+    tags: [],
+    instructor: ''
+  };
+  const residual: QueryToken[] = [];
+  const errors: string[] = [];
+  const addUnique = (values: string[], value: string) => {
+    if (!values.includes(value)) values.push(value);
+  };
+
+  for (const token of tokenize(input)) {
+    if (token.field === null) {
+      residual.push(token);
+      continue;
+    }
+
+    if (!FIELDS.includes(token.field)) {
+      const suggestion = FIELDS.find(field => editDistance(field, token.field!) <= 2);
+      errors.push(`未知的欄位「${token.field}」${suggestion ? `，是否要輸入 ${suggestion}:？` : `，可用欄位：${FIELDS.join('、')}`}`);
+      continue;
+    }
+
+    if (token.field === 'difficulty') {
+      const difficulty = parseDifficulty(token.value);
+      if (!difficulty) {
+        errors.push(`未知的難度「${token.value}」，可用：${DIFFICULTY_LEVELS.map(level => level.toLowerCase()).join('、')}`);
+        continue;
+      }
+      if (token.negated) {
+        residual.push({ ...token, value: difficulty.toLowerCase() });
+      } else {
+        addUnique(filters.difficulties, difficulty);
+      }
+      continue;
+    }
+
+    if (token.field === 'duration') {
+      const range = token.negated ? null : parseDuration(token.value);
+      if (!range) {
+        errors.push(token.negated
+          ? '時長不支援排除，請改用 duration:<10 或 duration:>=10'
+          : `無法解析時長「${token.value}」，例如 duration:<15、duration:>=10、duration:10-20`);
+        continue;
+      }
+      // 多個時長條件取交集
+      const [min, max] = range;
+      if (min !== null) filters.minDuration = Math.max(filters.minDuration ?? 0, min);
+      if (max !== null) filters.maxDuration = Math.min(filters.maxDuration ?? Infinity, max);
+      continue;
+    }
+
+    // tag、category、instructor
+    if (token.negated) {
+      residual.push(token);
+    } else if (token.field === 'tag') {
+      addUnique(filters.tags, token.value);
+    } else if (token.field === 'category') {
+      addUnique(filters.categories, token.value);
+    } else {
+      filters.instructor = token.value;
+    }
+  }
+
+  return { filters, residual: residual.map(formatToken).join(' '), errors };
+}
+
+/**
+ * 將過濾條件轉為查詢字串，用於讓搜尋欄與下拉選單保持一致
+ */
+export function formatSearchQuery(state: FilterState): string {
+  const tokens: QueryToken[] = [];
+  const add = (field: string, value: string) => tokens.push({ negated: false, field, value, quoted: false });
+
+  state.categories.forEach(category => add('category', category));
+  state.difficulties.forEach(difficulty => add('difficulty', difficulty.toLowerCase()));
+  if (state.minDuration !== null && state.maxDuration !== null) {
+    add('duration', state.minDuration === state.maxDuration ? `${state.minDuration}` : `${state.minDuration}-${state.maxDuration}`);
+  } else if (state.minDuration !== null) {
+    add('duration', `>=${state.minDuration}`);
+  } else if (state.maxDuration !== null) {
+    add('duration', `<=${state.maxDuration}`);
+  }
+  state.tags.forEach(tag => add('tag', tag));
+  if (state.instructor) add('instructor', state.instructor);
+
+  return [state.search, ...tokens.map(formatToken)].filter(Boolean).join(' ');
+}
+
+/**
+ * 將其餘文字轉為查詢參數 - 第一個關鍵字交給 API 搜尋，其餘關鍵字與排除條件在本地過濾
+ */
+export function compileResidualQuery(residual: string): QueryParams {
+  const params: QueryParams = {};
+  const terms: string[] = [];
+  const push = (key: 'excludeTerms' | 'excludeTags' | 'excludeCategories' | 'excludeDifficulties' | 'excludeInstructors', value: string) => {
+    (params[key] = params[key] || []).push(value);
+  };
+
+  for (const token of tokenize(residual)) {
+    if (!token.negated) {
+      // 解析時已移除正向欄位條件，這裡只剩關鍵字
+      if (token.field === null) terms.push(token.value);
+      continue;
+    }
+
+    switch (token.field) {
+      case null: push('excludeTerms', token.value); break;
+      case 'tag': push('excludeTags', token.value); break;
+      case 'category': push('excludeCategories', token.value); break;
+      case 'difficulty': push('excludeDifficulties', token.value.toUpperCase()); break;
+      case 'instructor': push('excludeInstructors', token.value); break;
+    }
+  }
+
+  if (terms.length > 0) params.search = terms[0];
+  if (terms.length > 1) params.terms = terms.slice(1);
+
+  return params;
+}
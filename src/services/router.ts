@@ -0,0 +1,39 @@
+import { Route } from '../types/index.js';
+
+// 詳細頁路徑，例如 #/poses/12
+const POSE_ROUTE = /^#\/poses\/([^/?]+)\/?$/;
+
+/**
+ * 解析網址 hash 為路由 - 無法辨識時回到列表頁
+ * 詳細頁的 id 不是整數時保留 NaN，由詳細頁顯示找不到資料
+ */
+export function parseRoute(hash: string = window.location.hash): Route {
+  const match = hash.match(POSE_ROUTE);
+  if (match) {
+    const id = /^\d+$/.test(match[1]) ? Number(match[1]) : NaN;
+    return { name: 'pose', id };
+  }
+  return { name: 'list' };
+}
+
+/**
+ * 將路由轉為網址 hash
+ */
+export function routeToHash(route: Route): string {
+  return route.name === 'pose' ? `#/poses/${route.id}` : '';
+}
+
+/**
+ * 切換路由 - 保留查詢字串；replace 為 true 時不新增瀏覽紀錄
+ */
+export function navigate(route: Route, replace: boolean = false) {
+  const url = `${window.location.pathname}${window.location.search}${routeToHash(route)}`;
+
+  if (replace) {
+    history.replaceState(null, '', url);
+  } else {
+    history.pushState(null, '', url);
+  }
+  // pushState/replaceState 不會觸發 hashchange，需手動通知
+  window.dispatchEvent(new HashChangeEvent('hashchange'));
+}
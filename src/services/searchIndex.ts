@@ -0,0 +1,268 @@
+import { YogaPose } from '../types/index.js';
+import { escapeHtml } from './format.js';
+
+// 建立索引的欄位與權重（名稱比說明更重要）
+const FIELD_WEIGHTS = {
+  title: 5,
+  sanskrit_name: 4,
+  tags: 3,
+  benefits: 2,
+  description: 1
+} as const;
+
+// 中日韓文字（不以空白分詞，改用雙字詞）
+const CJK_CHARS = '\\u3400-\\u9fff\\uf900-\\ufaff';
+const CJK_PATTERN = new RegExp(`[${CJK_CHARS}]`);
+
+// 連續的中文字，或連續的其他文字與數字
+const SEGMENT_PATTERN = new RegExp(`[${CJK_CHARS}]+|(?:(?![${CJK_CHARS}])[\\p{L}\\p{N}\\p{M}])+`, 'gu');
+
+// 比對方式的分數係數
+const MATCH_FACTOR = {
+  exact: 1,
+  prefix: 0.7,
+  fuzzy: 0.5,
+  substring: 0.4
+};
+
+/**
+ * 搜尋結果 - terms 為命中的索引詞，用於標示關鍵字
+ */
+export interface SearchResult {
+  pose: YogaPose;
+  score: number;
+  terms: Set<string>;
+}
+
+/**
+ * 文字片段 - 中文片段拆成雙字詞，其他片段為單一詞
+ */
+interface Segment {
+  text: string;
+  start: number;
+  cjk: boolean;
+  tokens: string[];
+}
+
+/**
+ * 計算兩個字串的編輯距離（相鄰字元對調算一次編輯）
+ */
+export function editDistance(a: string, b: string): number {
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * 正規化單字 - 轉小寫並移除變音符號（例如梵文名 Śvānāsana → svanasana）
+ */
+function normalizeWord(word: string): string {
+  return word.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+/**
+ * 將中文片段拆成雙字詞，單一個字則保留原字
+ */
+function toBigrams(text: string): string[] {
+  const chars = Array.from(text);
+  if (chars.length === 1) return chars;
+  return chars.slice(1).map((char, index) => chars[index] + char);
+}
+
+/**
+ * 將文字切成片段
+ */
+function segment(text: string): Segment[] {
+  return Array.from(text.matchAll(SEGMENT_PATTERN), match => {
+    const cjk = CJK_PATTERN.test(match[0]);
+    return {
+      text: match[0],
+      start: match.index ?? 0,
+      cjk,
+      tokens: cjk ? toBigrams(match[0]) : [normalizeWord(match[0])]
+    };
+  });
+}
+
+/**
+ * 以 <mark> 標示文字中命中的索引詞，其餘文字跳脫後輸出
+ */
+export function highlightText(text: string, terms: Set<string>): string {
+  if (!text || terms.size === 0) return escapeHtml(text || '');
+
+  const marked = new Array<boolean>(text.length).fill(false);
+
+  for (const part of segment(text)) {
+    if (!part.cjk) {
+      if (terms.has(part.tokens[0])) marked.fill(true, part.start, part.start + part.text.length);
+      continue;
+    }
+
+    // 中文以雙字詞標示，命中的兩個字都標示（索引範圍內的中文字都只佔一個字元）
+    part.tokens.forEach((token, index) => {
+      if (terms.has(token)) marked.fill(true, part.start + index, part.start + index + token.length);
+    });
+  }
+
+  let html = '';
+  let index = 0;
+  while (index < text.length) {
+    let end = index;
+    while (end < text.length && marked[end] === marked[index]) end++;
+    const chunk = escapeHtml(text.slice(index, end));
+    html += marked[index] ? `<mark>${chunk}</mark>` : chunk;
+    index = end;
+  }
+
+  return html;
+}
+
+/**
+ * 本地全文索引 - 以名稱、梵文名、說明、好處與標籤建立倒排索引
+ * 英文與梵文支援前綴與錯字容忍，中文以雙字詞比對，完全不需要網路
+ */
+export class SearchIndex {
+  private poses: Map<number, YogaPose> = new Map();
+  private postings: Map<string, Map<number, number>> = new Map();
+  private docTerms: Map<number, string[]> = new Map();
+
+  constructor(poses: YogaPose[] = []) {
+    this.add(poses);
+  }
+
+  /**
+   * 已建立索引的瑜伽動作數量
+   */
+  get size(): number {
+    return this.poses.size;
+  }
+
+  /**
+   * 加入或更新瑜伽動作
+   */
+  add(poses: YogaPose[]) {
+    poses.forEach(pose => {
+      this.remove(pose.id);
+      this.poses.set(pose.id, pose);
+
+      const weights = new Map<string, number>();
+      (Object.keys(FIELD_WEIGHTS) as Array<keyof typeof FIELD_WEIGHTS>).forEach(field => {
+        const value = pose[field];
+        const text = Array.isArray(value) ? value.join(' ') : value || '';
+        segment(text).flatMap(part => part.tokens).forEach(token => {
+          weights.set(token, (weights.get(token) || 0) + FIELD_WEIGHTS[field]);
+        });
+      });
+
+      weights.forEach((weight, term) => {
+        if (!this.postings.has(term)) this.postings.set(term, new Map());
+        this.postings.get(term)!.set(pose.id, weight);
+      });
+      this.docTerms.set(pose.id, [...weights.keys()]);
+    });
+  }
+
+  /**
+   * 移除瑜伽動作
+   */
+  remove(id: number) {
+    this.docTerms.get(id)?.forEach(term => {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting?.size === 0) this.postings.delete(term);
+    });
+    this.docTerms.delete(id);
+    this.poses.delete(id);
+  }
+
+  /**
+   * 搜尋 - 依相關度由高到低排序
+   * 每個英文單字都必須命中；中文片段至少要命中一半的雙字詞
+   */
+  search(query: string): SearchResult[] {
+    const segments = segment(query);
+    if (segments.length === 0) return [];
+
+    const results = new Map<number, { score: number; terms: Set<string>; segments: number }>();
+
+    for (const part of segments) {
+      const tokenHits = new Map<number, number>();
+
+      for (const token of new Set(part.tokens)) {
+        const hitIds = new Set<number>();
+
+        for (const [term, factor] of this.expand(token, part.cjk)) {
+          const posting = this.postings.get(term)!;
+          const idf = Math.log(1 + this.poses.size / posting.size);
+
+          posting.forEach((weight, id) => {
+            const result = results.get(id) || { score: 0, terms: new Set<string>(), segments: 0 };
+            result.score += weight * factor * idf;
+            result.terms.add(term);
+            results.set(id, result);
+            hitIds.add(id);
+          });
+        }
+
+        hitIds.forEach(id => tokenHits.set(id, (tokenHits.get(id) || 0) + 1));
+      }
+
+      const required = Math.ceil(new Set(part.tokens).size / 2);
+      tokenHits.forEach((hits, id) => {
+        if (hits >= required) results.get(id)!.segments++;
+      });
+    }
+
+    return [...results.entries()]
+      .filter(([, result]) => result.segments === segments.length)
+      .map(([id, result]) => ({ pose: this.poses.get(id)!, score: result.score, terms: result.terms }))
+      .sort((a, b) => b.score - a.score || a.pose.title.localeCompare(b.pose.title));
+  }
+
+  /**
+   * 找出與查詢詞相符的索引詞及其分數係數
+   */
+  private expand(token: string, cjk: boolean): Array<[string, number]> {
+    if (cjk && token.length > 1) return this.postings.has(token) ? [[token, MATCH_FACTOR.exact]] : [];
+
+    // 單一個中文字比對包含該字的雙字詞
+    if (cjk) {
+      return [...this.postings.keys()]
+        .filter(term => term.includes(token))
+        .map(term => [term, term === token ? MATCH_FACTOR.exact : MATCH_FACTOR.prefix]);
+    }
+
+    const maxEdits = token.length >= 8 ? 2 : 1;
+    const matches: Array<[string, number]> = [];
+
+    for (const term of this.postings.keys()) {
+      if (CJK_PATTERN.test(term)) continue;
+
+      if (term === token) {
+        matches.push([term, MATCH_FACTOR.exact]);
+      } else if (token.length >= 2 && term.startsWith(token)) {
+        matches.push([term, MATCH_FACTOR.prefix]);
+      } else if (token.length >= 4 && Math.abs(term.length - token.length) <= maxEdits && editDistance(term, token) <= maxEdits) {
+        matches.push([term, MATCH_FACTOR.fuzzy]);
+      } else if (token.length >= 4 && term.includes(token)) {
+        matches.push([term, MATCH_FACTOR.substring]);
+      }
+    }
+
+    return matches;
+  }
+}
@@ -0,0 +1,322 @@
+import { YogaPose, PracticeSequence } from '../types/index.js';
+import { SequenceStore, summarizeSequence } from './sequences.js';
+import { DIFFICULTY_LABELS } from './poseFilters.js';
+import { appEvents } from './eventBus.js';
+import { escapeHtml, formatMinutes } from './format.js';
+
+// 編輯器容器與開關按鈕 id
+const BUILDER_ID = 'sequence-builder';
+const TOGGLE_ID = 'sequence-toggle';
+
+/**
+ * 練習序列編輯器 - 畫面右側的面板，可拖曳排序、設定停留時間，並顯示各分類與難度的累計時間
+ * 觸控裝置不支援拖曳時可使用上移/下移按鈕
+ */
+export class SequenceBuilder {
+  private store: SequenceStore;
+  private onStart: (sequence: PracticeSequence) => void;
+  private isOpen: boolean = false;
+  private dragIndex: number | null = null;
+  private error: string = '';
+
+  /**
+   * @param onStart 點擊「開始練習」時呼叫
+   */
+  constructor(store: SequenceStore, onStart: (sequence: PracticeSequence) => void) {
+    this.store = store;
+    this.onStart = onStart;
+    this.renderToggle();
+    appEvents.on('sequences:changed', () => {
+      this.renderToggle();
+      if (this.isOpen) this.render();
+    });
+  }
+
+  /**
+   * 將動作加入目前編輯中的序列，回傳更新後的序列
+   */
+  addPose(pose: YogaPose): PracticeSequence {
+    return this.store.addPose(pose);
+  }
+
+  /**
+   * 開啟編輯器
+   */
+  open() {
+    this.isOpen = true;
+    this.render();
+  }
+
+  /**
+   * 關閉編輯器
+   */
+  close() {
+    this.isOpen = false;
+    this.error = '';
+    document.getElementById(BUILDER_ID)?.remove();
+  }
+
+  /**
+   * 執行序列操作，失敗時在編輯器中顯示錯誤
+   */
+  private run(action: () => void) {
+    // 成功的操作會觸發 sequences:changed 並重新渲染，先清除舊錯誤
+    this.error = '';
+    try {
+      action();
+    } catch (error) {
+      this.error = error instanceof Error ? error.message : String(error);
+      this.render();
+    }
+  }
+
+  /**
+   * 畫面右下角的開關按鈕，顯示目前序列的動作數量
+   */
+  private renderToggle() {
+    let toggle = document.getElementById(TOGGLE_ID);
+
+    if (!toggle) {
+      toggle = document.createElement('ion-button');
+      toggle.id = TOGGLE_ID;
+      toggle.setAttribute('shape', 'round');
+      toggle.style.cssText = 'position: fixed; right: 16px; bottom: 16px; z-index: 900;';
+      toggle.addEventListener('click', () => (this.isOpen ? this.close() : this.open()));
+      document.body.appendChild(toggle);
+    }
+
+    const count = this.store.getActive()?.steps.length || 0;
+    toggle.innerHTML = `
+      <ion-icon slot="start" name="list-outline"></ion-icon>
+      練習序列${count > 0 ? `（${count}）` : ''}
+    `;
+  }
+
+  /**
+   * 取得或建立編輯器容器
+   */
+  private getContainer(): HTMLElement {
+    let container = document.getElementById(BUILDER_ID);
+
+    if (!container) {
+      container = document.createElement('div');
+      container.id = BUILDER_ID;
+      container.className = 'sequence-builder';
+      container.style.cssText = 'position: fixed; top: 0; right: 0; bottom: 0; width: min(380px, 100vw); z-index: 950; overflow-y: auto; background: var(--ion-background-color, #fff); box-shadow: -2px 0 12px rgba(0, 0, 0, 0.2);';
+      container.addEventListener('click', (e) => this.handleClick(e));
+      container.addEventListener('ionChange', (e) => this.handleChange(e as CustomEvent));
+      this.setupDragAndDrop(container);
+      document.body.appendChild(container);
+    }
+
+    return container;
+  }
+
+  /**
+   * 處理按鈕點擊
+   */
+  private handleClick(e: Event) {
+    const button = (e.target as HTMLElement).closest<HTMLElement>('[data-action]');
+    if (!button) return;
+
+    const sequence = this.store.getActive();
+    const index = Number(button.dataset.index);
+
+    switch (button.dataset.action) {
+      case 'close':
+        this.close();
+        break;
+      case 'create': {
+        const name = prompt('新序列名稱', `練習序列 ${this.store.list().length + 1}`);
+        if (name !== null) this.run(() => this.store.create(name));
+        break;
+      }
+      case 'rename': {
+        if (!sequence) return;
+        const name = prompt('重新命名序列', sequence.name);
+        if (name !== null) this.run(() => this.store.rename(sequence.id, name));
+        break;
+      }
+      case 'delete':
+        if (sequence && confirm(`確定要刪除序列「${sequence.name}」？`)) {
+          this.run(() => this.store.delete(sequence.id));
+        }
+        break;
+      case 'start':
+        if (sequence && sequence.steps.length > 0) {
+          this.close();
+          this.onStart(sequence);
+        }
+        break;
+      case 'remove':
+        if (sequence) this.run(() => this.store.removeStep(sequence.id, index));
+        break;
+      case 'up':
+      case 'down':
+        if (sequence) this.run(() => this.store.moveStep(sequence.id, index, index + (button.dataset.action === 'up' ? -1 : 1)));
+        break;
+    }
+  }
+
+  /**
+   * 處理序列切換與停留時間變更
+   */
+  private handleChange(e: CustomEvent) {
+    const target = e.target as HTMLElement;
+
+    if (target.classList.contains('sequence-select') && e.detail.value) {
+      this.run(() => this.store.setActive(e.detail.value));
+    } else if (target.classList.contains('sequence-hold')) {
+      const sequence = this.store.getActive();
+      if (sequence) this.run(() => this.store.setHold(sequence.id, Number(target.dataset.index), Number(e.detail.value)));
+    }
+  }
+
+  /**
+   * 以 HTML5 拖放調整動作順序
+   */
+  private setupDragAndDrop(container: HTMLElement) {
+    const stepOf = (e: Event) => (e.target as HTMLElement).closest<HTMLElement>('.sequence-step');
+
+    container.addEventListener('dragstart', (e) => {
+      const step = stepOf(e);
+      if (!step) return;
+      this.dragIndex = Number(step.dataset.index);
+      e.dataTransfer?.setData('text/plain', String(this.dragIndex));
+      step.style.opacity = '0.5';
+    });
+
+    container.addEventListener('dragover', (e) => {
+      const step = stepOf(e);
+      if (!step || this.dragIndex === null) return;
+      e.preventDefault();
+      container.querySelectorAll('.sequence-step.drop-target').forEach(element => element.classList.remove('drop-target'));
+      step.classList.add('drop-target');
+    });
+
+    container.addEventListener('drop', (e) => {
+      const step = stepOf(e);
+      const sequence = this.store.getActive();
+      if (!step || !sequence || this.dragIndex === null) return;
+      e.preventDefault();
+      const from = this.dragIndex;
+      this.dragIndex = null;
+      this.run(() => this.store.moveStep(sequence.id, from, Number(step.dataset.index)));
+    });
+
+    container.addEventListener('dragend', () => {
+      this.dragIndex = null;
+      this.render();
+    });
+  }
+
+  /**
+   * 渲染編輯器
+   */
+  private render() {
+    const sequences = this.store.list();
+    const sequence = this.store.getActive();
+
+    this.getContainer().innerHTML = `
+      <ion-toolbar>
+        <ion-title>練習序列</ion-title>
+        <ion-buttons slot="end">
+          <ion-button data-action="close" aria-label="關閉">
+            <ion-icon slot="icon-only" name="close-outline"></ion-icon>
+          </ion-button>
+        </ion-buttons>
+      </ion-toolbar>
+      <div class="ion-padding">
+        <div style="display: flex; align-items: center; gap: 4px;">
+          ${sequences.length > 0 ? `
+            <ion-select class="sequence-select" interface="popover" value="${sequence?.id || ''}" aria-label="序列" style="flex: 1;">
+              ${sequences.map(entry => `<ion-select-option value="${entry.id}">${escapeHtml(entry.name)}</ion-select-option>`).join('')}
+            </ion-select>
+          ` : '<p style="flex: 1;">尚未建立序列，從動作卡片點擊「加入序列」開始</p>'}
+          <ion-button size="small" fill="clear" data-action="create" aria-label="新增序列">
+            <ion-icon slot="icon-only" name="add-outline"></ion-icon>
+          </ion-button>
+          ${sequence ? `
+            <ion-button size="small" fill="clear" data-action="rename" aria-label="重新命名">
+              <ion-icon slot="icon-only" name="create-outline"></ion-icon>
+            </ion-button>
+            <ion-button size="small" fill="clear" color="danger" data-action="delete" aria-label="刪除序列">
+              <ion-icon slot="icon-only" name="trash-outline"></ion-icon>
+            </ion-button>
+          ` : ''}
+        </div>
+        ${this.error ? `<p class="sequence-error" style="color: #e53e3e;">${escapeHtml(this.error)}</p>` : ''}
+        ${sequence ? this.renderSequence(sequence) : ''}
+      </div>
+    `;
+  }
+
+  /**
+   * 渲染序列的動作與摘要
+   */
+  private renderSequence(sequence: PracticeSequence): string {
+    if (sequence.steps.length === 0) {
+      return '<p>序列中還沒有動作，從列表或詳細頁點擊「加入序列」</p>';
+    }
+
+    const summary = summarizeSequence(sequence.steps);
+    let elapsed = 0;
+
+    const steps = sequence.steps.map((step, index) => {
+      const start = elapsed;
+      elapsed += step.holdMinutes;
+      return `
+        <div class="sequence-step" draggable="true" data-index="${index}"
+             style="display: flex; align-items: center; gap: 8px; padding: 8px 0; border-bottom: 1px solid rgba(0, 0, 0, 0.1); cursor: grab;">
+          <ion-icon name="reorder-three-outline" aria-hidden="true"></ion-icon>
+          <div style="flex: 1; min-width: 0;">
+            <strong>${index + 1}. ${escapeHtml(step.title)}</strong>
+            <div style="font-size: 0.85em; opacity: 0.7;">
+              ${escapeHtml(step.category)}・${escapeHtml(DIFFICULTY_LABELS[step.difficulty] || step.difficulty)}・第 ${Math.round(start * 10) / 10}–${Math.round(elapsed * 10) / 10} 分鐘
+            </div>
+          </div>
+          <ion-input class="sequence-hold" data-index="${index}" type="number" min="0" max="120" step="0.5"
+                     value="${step.holdMinutes}" aria-label="停留時間（分鐘）" style="max-width: 64px;"></ion-input>
+          <ion-buttons>
+            <ion-button size="small" data-action="up" data-index="${index}" ${index === 0 ? 'disabled' : ''} aria-label="上移">
+              <ion-icon slot="icon-only" name="chevron-up-outline"></ion-icon>
+            </ion-button>
+            <ion-button size="small" data-action="down" data-index="${index}" ${index === sequence.steps.length - 1 ? 'disabled' : ''} aria-label="下移">
+              <ion-icon slot="icon-only" name="chevron-down-outline"></ion-icon>
+            </ion-button>
+            <ion-button size="small" color="danger" data-action="remove" data-index="${index}" aria-label="移除">
+              <ion-icon slot="icon-only" name="close-circle-outline"></ion-icon>
+            </ion-button>
+          </ion-buttons>
+        </div>
+      `;
+    }).join('');
+
+    const totals = (entries: Record<string, number>, label: (key: string) => string) => Object.entries(entries)
+      .map(([key, minutes]) => `<ion-chip>${escapeHtml(label(key))}：${formatMinutes(minutes)}</ion-chip>`)
+      .join('');
+
+    return `
+      <div class="sequence-steps">${steps}</div>
+      <h3>總時間：${formatMinutes(summary.totalMinutes)}</h3>
+      <ion-button expand="block" data-action="start">
+        <ion-icon slot="start" name="play-outline"></ion-icon>
+        開始練習
+      </ion-button>
+      <p>各分類</p>
+      <div>${totals(summary.byCategory, key => key)}</div>
+      <p>各難度</p>
+      <div>${totals(summary.byDifficulty, key => DIFFICULTY_LABELS[key] || '未知')}</div>
+      ${summary.warnings.length > 0 ? `
+        <ion-list class="sequence-warnings">
+          ${summary.warnings.map(warning => `
+            <ion-item lines="none" color="warning">
+              <ion-icon slot="start" name="warning-outline"></ion-icon>
+              <ion-label class="ion-text-wrap">${escapeHtml(warning)}</ion-label>
+            </ion-item>
+          `).join('')}
+        </ion-list>
+      ` : ''}
+    `;
+  }
+}
@@ -0,0 +1,284 @@
+import { YogaPose, PracticeSequence, SequenceStep, SequenceSummary } from '../types/index.js';
+import { appEvents } from './eventBus.js';
+
+// 序列名稱長度上限
+const MAX_NAME_LENGTH = 40;
+
+// 單一動作停留時間上限（分鐘）
+const MAX_HOLD_MINUTES = 120;
+
+// 結尾應安排的休息動作分類
+export const REST_CATEGORY = '休息式';
+
+/**
+ * 儲存格式
+ */
+interface StoredSequences {
+  activeId: string | null;
+  sequences: PracticeSequence[];
+}
+
+/**
+ * 將停留時間限制在 0 到上限之間，無效值視為 0
+ */
+function clampHold(minutes: number): number {
+  return Number.isFinite(minutes) ? Math.min(MAX_HOLD_MINUTES, Math.max(0, Math.round(minutes * 10) / 10)) : 0;
+}
+
+/**
+ * 計算序列的總時間、各分類與難度的時間，並檢查常見問題
+ */
+export function summarizeSequence(steps: SequenceStep[]): SequenceSummary {
+  const byCategory: Record<string, number> = {};
+  const byDifficulty: Record<string, number> = {};
+  const warnings: string[] = [];
+  let totalMinutes = 0;
+
+  steps.forEach(step => {
+    totalMinutes += step.holdMinutes;
+    byCategory[step.category || '未分類'] = (byCategory[step.category || '未分類'] || 0) + step.holdMinutes;
+    byDifficulty[step.difficulty || 'UNKNOWN'] = (byDifficulty[step.difficulty || 'UNKNOWN'] || 0) + step.holdMinutes;
+  });
+
+  if (steps.length > 0) {
+    if (steps[steps.length - 1].category !== REST_CATEGORY) {
+      warnings.push(`結尾缺少${REST_CATEGORY}動作，建議以休息動作（例如嬰兒式）收尾`);
+    }
+    if (steps[0].difficulty.toUpperCase() === 'ADVANCED') {
+      warnings.push('以高級動作開始，建議先安排暖身動作');
+    }
+    steps.forEach((step, index) => {
+      if (step.holdMinutes <= 0) warnings.push(`第 ${index + 1} 個動作「${step.title}」的停留時間為 0`);
+      if (index > 0 && steps[index - 1].poseId === step.poseId) {
+        warnings.push(`第 ${index} 與第 ${index + 1} 個動作重複（${step.title}）`);
+      }
+    });
+  }
+
+  return { totalMinutes: Math.round(totalMinutes * 10) / 10, byCategory, byDifficulty, warnings };
+}
+
+/**
+ * 練習序列儲存 - 依使用者分開存放在 localStorage（未登入時使用匿名空間）
+ * 記錄目前編輯中的序列；每次變更後發出 sequences:changed 事件
+ */
+export class SequenceStore {
+  private userId: number | null = null;
+  private data: StoredSequences = this.load();
+
+  /**
+   * 切換使用者並載入其序列
+   */
+  setUser(userId: number | null) {
+    if (userId === this.userId) return;
+    this.userId = userId;
+    this.data = this.load();
+    this.notify();
+  }
+
+  /**
+   * 取得所有序列
+   */
+  list(): PracticeSequence[] {
+    return this.data.sequences.map(sequence => ({ ...sequence, steps: sequence.steps.map(step => ({ ...step })) }));
+  }
+
+  /**
+   * 取得單個序列
+   */
+  get(id: string): PracticeSequence | null {
+    return this.list().find(sequence => sequence.id === id) || null;
+  }
+
+  /**
+   * 目前編輯中的序列 id
+   */
+  get activeId(): string | null {
+    return this.data.activeId;
+  }
+
+  /**
+   * 取得目前編輯中的序列
+   */
+  getActive(): PracticeSequence | null {
+    return this.data.activeId ? this.get(this.data.activeId) : null;
+  }
+
+  /**
+   * 切換編輯中的序列
+   */
+  setActive(id: string) {
+    this.find(id);
+    this.data.activeId = id;
+    this.save();
+  }
+
+  /**
+   * 建立序列並設為編輯中
+   */
+  create(name: string): PracticeSequence {
+    const now = Date.now();
+    const sequence: PracticeSequence = {
+      id: `seq_${now.toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+      name: this.validateName(name),
+      steps: [],
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.data.sequences.push(sequence);
+    this.data.activeId = sequence.id;
+    this.save();
+    return this.get(sequence.id)!;
+  }
+
+  /**
+   * 重新命名序列
+   */
+  rename(id: string, name: string) {
+    const sequence = this.find(id);
+    sequence.name = this.validateName(name, id);
+    this.touch(sequence);
+  }
+
+  /**
+   * 刪除序列，編輯中的序列改為第一個序列
+   */
+  delete(id: string) {
+    this.find(id);
+    this.data.sequences = this.data.sequences.filter(sequence => sequence.id !== id);
+    if (this.data.activeId === id) {
+      this.data.activeId = this.data.sequences[0]?.id ?? null;
+    }
+    this.save();
+  }
+
+  /**
+   * 將動作加入序列結尾 - 沒有序列時自動建立，停留時間預設為動作的建議時長
+   */
+  addPose(pose: YogaPose, id: string | null = this.data.activeId): PracticeSequence {
+    const sequence = id ? this.find(id) : this.find(this.create('我的練習序列').id);
+
+    sequence.steps.push({
+      poseId: pose.id,
+      title: pose.title,
+      category: pose.category,
+      difficulty: pose.difficulty.toUpperCase(),
+      holdMinutes: clampHold(pose.duration_minutes)
+    });
+    this.touch(sequence);
+    return this.get(sequence.id)!;
+  }
+
+  /**
+   * 移除序列中的動作
+   */
+  removeStep(id: string, index: number) {
+    const sequence = this.find(id);
+    if (!sequence.steps[index]) return;
+    sequence.steps.splice(index, 1);
+    this.touch(sequence);
+  }
+
+  /**
+   * 移動序列中的動作到指定位置
+   */
+  moveStep(id: string, fromIndex: number, toIndex: number) {
+    const sequence = this.find(id);
+    const target = Math.max(0, Math.min(sequence.steps.length - 1, toIndex));
+    if (!sequence.steps[fromIndex] || fromIndex === target) return;
+
+    const [step] = sequence.steps.splice(fromIndex, 1);
+    sequence.steps.splice(target, 0, step);
+    this.touch(sequence);
+  }
+
+  /**
+   * 設定動作的停留時間（分鐘）
+   */
+  setHold(id: string, index: number, minutes: number) {
+    const sequence = this.find(id);
+    const step = sequence.steps[index];
+    if (!step) return;
+
+    const hold = clampHold(minutes);
+    if (step.holdMinutes === hold) return;
+    step.holdMinutes = hold;
+    this.touch(sequence);
+  }
+
+  /**
+   * 找出序列，不存在時拋出錯誤
+   */
+  private find(id: string): PracticeSequence {
+    const sequence = this.data.sequences.find(entry => entry.id === id);
+    if (!sequence) throw new Error('練習序列不存在');
+    return sequence;
+  }
+
+  /**
+   * 檢查名稱 - 不可空白，且不可與其他序列重複（不分大小寫）
+   */
+  private validateName(name: string, excludeId?: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('請輸入序列名稱');
+    if (trimmed.length > MAX_NAME_LENGTH) throw new Error(`序列名稱不可超過 ${MAX_NAME_LENGTH} 個字`);
+
+    const duplicate = this.data.sequences.some(sequence =>
+      sequence.id !== excludeId && sequence.name.toLowerCase() === trimmed.toLowerCase()
+    );
+    if (duplicate) throw new Error(`已有名為「${trimmed}」的序列`);
+
+    return trimmed;
+  }
+
+  /**
+   * 更新修改時間並儲存
+   */
+  private touch(sequence: PracticeSequence) {
+    sequence.updatedAt = Date.now();
+    this.save();
+  }
+
+  /**
+   * 目前使用者的儲存鍵
+   */
+  private get storageKey(): string {
+    return `practice_sequences_${this.userId ?? 'anonymous'}`;
+  }
+
+  /**
+   * 從 localStorage 載入，格式錯誤時視為沒有序列
+   */
+  private load(): StoredSequences {
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.storageKey) || 'null');
+      const sequences = Array.isArray(stored?.sequences)
+        ? stored.sequences.filter((entry: PracticeSequence) => entry && typeof entry.id === 'string' && Array.isArray(entry.steps))
+        : [];
+      const activeId = sequences.some((entry: PracticeSequence) => entry.id === stored?.activeId)
+        ? stored.activeId
+        : sequences[0]?.id ?? null;
+      return { activeId, sequences };
+    } catch {
+      return { activeId: null, sequences: [] };
+    }
+  }
+
+  /**
+   * 儲存並通知
+   */
+  private save() {
+    localStorage.setItem(this.storageKey, JSON.stringify(this.data));
+    this.notify();
+  }
+
+  /**
+   * 發出序列變更事件
+   */
+  private notify() {
+    appEvents.emit('sequences:changed', { sequences: this.list(), activeId: this.data.activeId });
+  }
+}
+
+export const sequenceStore = new SequenceStore();
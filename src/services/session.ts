@@ -0,0 +1,162 @@
+import { appEvents } from './eventBus.js';
+
+// 非 JWT token 的工作階段有效期（24 小時）
+const SESSION_DURATION = 24 * 60 * 60 * 1000;
+
+// 到期前多久提醒使用者
+const WARNING_BEFORE_EXPIRY = 5 * 60 * 1000;
+
+// setTimeout 可接受的最大延遲
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+// 儲存 token 發出時間的鍵名
+const ISSUED_AT_KEY = 'auth_issued_at';
+
+/**
+ * 記錄 token 發出時間
+ */
+export function recordTokenIssuedAt(issuedAt: number = Date.now()) {
+  localStorage.setItem(ISSUED_AT_KEY, String(issuedAt));
+}
+
+/**
+ * 清除 token 發出時間
+ */
+export function clearTokenIssuedAt() {
+  localStorage.removeItem(ISSUED_AT_KEY);
+}
+
+/**
+ * 解析 JWT 的到期時間（毫秒），非 JWT 或沒有 exp 時回傳 null
+ */
+function readJwtExpiry(token: string): number | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  try {
+    const base64 = parts[1].replace(/-/g, '+').replace(/_/g, '/');
+    const payload = JSON.parse(atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '=')));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 取得 token 的到期時間 - JWT 使用 exp，否則使用發出時間 + 24 小時
+ */
+export function getTokenExpiry(token: string): number {
+  const jwtExpiry = readJwtExpiry(token);
+  if (jwtExpiry !== null) return jwtExpiry;
+
+  let issuedAt = Number(localStorage.getItem(ISSUED_AT_KEY));
+  if (!issuedAt) {
+    // 舊版本沒有記錄發出時間，從現在開始計算
+    issuedAt = Date.now();
+    recordTokenIssuedAt(issuedAt);
+  }
+  return issuedAt + SESSION_DURATION;
+}
+
+/**
+ * 工作階段管理器 - 在 token 到期前提醒，到期時透過事件匯流排通知登出
+ */
+export class SessionManager {
+  private token: string | null = null;
+  private warningTimer: number | null = null;
+  private expiryTimer: number | null = null;
+  private warned: boolean = false;
+
+  constructor() {
+    // 分頁回到前景時重新檢查（背景分頁的計時器可能被延遲）
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible' && this.token) {
+        this.schedule();
+      }
+    });
+  }
+
+  /**
+   * 開始追蹤 token 的有效期
+   */
+  start(token: string) {
+    this.token = token;
+    this.warned = false;
+    this.schedule();
+  }
+
+  /**
+   * 停止追蹤
+   */
+  stop() {
+    this.token = null;
+    this.clearTimers();
+  }
+
+  /**
+   * 檢查 token 是否已過期
+   */
+  isExpired(token: string): boolean {
+    return getTokenExpiry(token) <= Date.now();
+  }
+
+  /**
+   * 依剩餘時間設定提醒與到期計時器
+   */
+  private schedule() {
+    this.clearTimers();
+    if (!this.token) return;
+
+    const remaining = getTokenExpiry(this.token) - Date.now();
+
+    if (remaining <= 0) {
+      this.expire();
+      return;
+    }
+
+    if (!this.warned) {
+      const warningDelay = remaining - WARNING_BEFORE_EXPIRY;
+      if (warningDelay <= 0) {
+        this.warn();
+      } else if (warningDelay <= MAX_TIMER_DELAY) {
+        this.warningTimer = window.setTimeout(() => this.warn(), warningDelay);
+      }
+    }
+
+    // 超過計時器上限時先排程重新檢查
+    this.expiryTimer = window.setTimeout(
+      () => this.schedule(),
+      Math.min(remaining, MAX_TIMER_DELAY)
+    );
+  }
+
+  /**
+   * 發出即將到期提醒
+   */
+  private warn() {
+    if (this.warned || !this.token) return;
+    this.warned = true;
+    appEvents.emit('auth:sessionWarning', {
+      remainingMs: Math.max(0, getTokenExpiry(this.token) - Date.now())
+    });
+  }
+
+  /**
+   * 工作階段到期
+   */
+  private expire() {
+    const expiredAt = this.token ? getTokenExpiry(this.token) : Date.now();
+    this.stop();
+    appEvents.emit('auth:sessionExpired', { expiredAt });
+  }
+
+  /**
+   * 清除計時器
+   */
+  private clearTimers() {
+    if (this.warningTimer !== null) clearTimeout(this.warningTimer);
+    if (this.expiryTimer !== null) clearTimeout(this.expiryTimer);
+    this.warningTimer = null;
+    this.expiryTimer = null;
+  }
+}
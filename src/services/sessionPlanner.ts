@@ -0,0 +1,195 @@
+import { YogaPose, PlanRequest, PlannedPose, SessionPlan } from '../types/index.js';
+import { DIFFICULTY_LEVELS } from './poseFilters.js';
+import { REST_CATEGORY } from './sequences.js';
+
+// 目標時間上限（分鐘）
+export const MAX_TARGET_MINUTES = 180;
+
+// 課表階段（依練習順序），以分類決定動作所屬的階段
+export const PLAN_PHASES: { name: string; categories: string[] }[] = [
+  { name: '暖身', categories: ['坐姿式', '開髖式'] },
+  { name: '站立', categories: ['站立式'] },
+  { name: '平衡與後彎', categories: ['平衡式', '後彎式', '手臂平衡式', '倒立式'] },
+  { name: '前彎', categories: ['前彎式'] },
+  { name: '休息', categories: [REST_CATEGORY] }
+];
+
+// 未列出的分類歸入的階段（平衡與後彎）
+const DEFAULT_PHASE = 2;
+
+// 休息階段
+const REST_PHASE = PLAN_PHASES.length - 1;
+
+// 符合重點的動作的額外權重，讓排課優先選用
+const FOCUS_BONUS = 10;
+
+/**
+ * 以 FNV-1a 將種子字串轉為 32 位元整數
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 建立可重現的亂數產生器（mulberry32）- 相同種子產生相同的數列，值介於 [0, 1)
+ */
+export function createSeededRandom(seed: string): () => number {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 產生新的隨機種子
+ */
+export function randomSeed(): string {
+  return Math.random().toString(36).slice(2, 8);
+}
+
+/**
+ * 動作所屬的階段索引
+ */
+function phaseOf(pose: YogaPose): number {
+  const index = PLAN_PHASES.findIndex(phase => phase.categories.includes(pose.category));
+  return index === -1 ? DEFAULT_PHASE : index;
+}
+
+/**
+ * 難度等級（由淺到深），未知難度回傳 -1
+ */
+function difficultyRank(difficulty: string): number {
+  return DIFFICULTY_LEVELS.indexOf((difficulty || '').toUpperCase());
+}
+
+/**
+ * 排課使用的動作時長（整數分鐘，至少 1 分鐘）
+ */
+function minutesOf(pose: YogaPose): number {
+  return Math.max(1, Math.round(pose.duration_minutes));
+}
+
+interface Candidate {
+  pose: YogaPose;
+  minutes: number;
+  phase: number;
+  rank: number;
+  // 排課權重 - 符合重點的動作較高，同權重時以種子決定
+  value: number;
+  jitter: number;
+}
+
+/**
+ * 從候選動作中選出時長總和最接近（不超過）目標的組合，總和相同時選權重最高者
+ */
+function selectByDuration(candidates: Candidate[], target: number): Candidate[] {
+  if (target <= 0 || candidates.length === 0) return [];
+
+  // best[i][s]：前 i 個候選動作剛好湊成 s 分鐘時的最高權重
+  const best: Float64Array[] = [new Float64Array(target + 1).fill(-Infinity)];
+  best[0][0] = 0;
+
+  candidates.forEach((candidate, i) => {
+    const previous = best[i];
+    const row = Float64Array.from(previous);
+    for (let sum = candidate.minutes; sum <= target; sum++) {
+      const value = previous[sum - candidate.minutes] + candidate.value;
+      if (value > row[sum]) row[sum] = value;
+    }
+    best.push(row);
+  });
+
+  let sum = target;
+  while (sum > 0 && best[candidates.length][sum] === -Infinity) sum--;
+
+  const selected: Candidate[] = [];
+  for (let i = candidates.length; i > 0 && sum > 0; i--) {
+    if (best[i][sum] !== best[i - 1][sum]) {
+      selected.push(candidates[i - 1]);
+      sum -= candidates[i - 1].minutes;
+    }
+  }
+  return selected;
+}
+
+/**
+ * 依條件自動排課 - 動作時長總和盡量等於目標時間，並依暖身 → 站立 → 平衡/後彎 → 前彎 → 休息排列
+ * 相同的動作庫、條件與種子一定產生相同的課表
+ */
+export function planSession(library: YogaPose[], request: PlanRequest): SessionPlan {
+  const target = Math.min(MAX_TARGET_MINUTES, Math.max(1, Math.round(request.targetMinutes) || 1));
+  const normalized: PlanRequest = { ...request, targetMinutes: target };
+  const maxRank = difficultyRank(request.maxDifficulty) === -1 ? DIFFICULTY_LEVELS.length - 1 : difficultyRank(request.maxDifficulty);
+  const excludeTags = new Set(request.excludeTags.map(tag => tag.toLowerCase()));
+  const focusTags = new Set(request.focusTags.map(tag => tag.toLowerCase()));
+  const focusCategories = new Set(request.focusCategories);
+  const hasFocus = focusTags.size > 0 || focusCategories.size > 0;
+  const random = createSeededRandom(request.seed);
+  const warnings: string[] = [];
+
+  // 依 id 排序後再抽亂數，讓結果不受動作庫載入順序影響
+  const unique = new Map(library.map(pose => [pose.id, pose]));
+  const candidates: Candidate[] = [...unique.values()]
+    .sort((a, b) => a.id - b.id)
+    .filter(pose => pose.duration_minutes > 0)
+    .map(pose => {
+      const focus = focusCategories.has(pose.category) || pose.tags.some(tag => focusTags.has(tag.toLowerCase()));
+      const jitter = random();
+      return {
+        pose,
+        minutes: minutesOf(pose),
+        phase: phaseOf(pose),
+        rank: difficultyRank(pose.difficulty),
+        value: (focus ? FOCUS_BONUS : 0) + jitter,
+        jitter
+      };
+    })
+    .filter(candidate =>
+      candidate.rank !== -1 &&
+      candidate.rank <= maxRank &&
+      !candidate.pose.tags.some(tag => excludeTags.has(tag.toLowerCase()))
+    );
+
+  if (candidates.length === 0) {
+    warnings.push('沒有符合條件的動作，請提高難度上限或減少排除的標籤');
+    return { request: normalized, poses: [], totalMinutes: 0, warnings };
+  }
+  if (hasFocus && !candidates.some(candidate => candidate.value >= FOCUS_BONUS)) {
+    warnings.push('沒有符合重點分類或標籤的動作，已改用其他動作');
+  }
+
+  // 結尾保留一個休息動作
+  const rest = candidates
+    .filter(candidate => candidate.phase === REST_PHASE && candidate.minutes <= target)
+    .sort((a, b) => b.value - a.value)[0];
+  if (!rest) warnings.push(`沒有可用的${REST_CATEGORY}動作，結尾未安排休息`);
+
+  const others = candidates.filter(candidate => candidate.phase !== REST_PHASE);
+  const selected = selectByDuration(others, target - (rest?.minutes || 0));
+  const ordered = selected.sort((a, b) => a.phase - b.phase || a.rank - b.rank || a.jitter - b.jitter);
+  if (rest) ordered.push(rest);
+
+  const totalMinutes = ordered.reduce((sum, candidate) => sum + candidate.minutes, 0);
+  if (totalMinutes < target) {
+    const available = others.reduce((sum, candidate) => sum + candidate.minutes, rest?.minutes || 0);
+    warnings.push(available < target
+      ? `符合條件的動作只夠安排 ${totalMinutes} 分鐘（目標 ${target} 分鐘）`
+      : `無法剛好湊滿 ${target} 分鐘，已安排最接近的 ${totalMinutes} 分鐘`);
+  }
+
+  return {
+    request: normalized,
+    poses: ordered.map((candidate): PlannedPose => ({ pose: candidate.pose, phase: PLAN_PHASES[candidate.phase].name })),
+    totalMinutes,
+    warnings
+  };
+}
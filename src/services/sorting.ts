@@ -0,0 +1,168 @@
+import { YogaPose, SortField, SortOrder, SortSpec } from '../types/index.js';
+import { DIFFICULTY_LEVELS } from './poseFilters.js';
+import sortFields from '../data/sortFields.json';
+
+// 排序值比較時使用的鍵，null 表示缺少資料（不論方向都排在最後）
+type SortKey = string | number | null;
+
+// 排序鍵的型別 - 決定如何由欄位值取出比較用的鍵
+type SortKeyType = 'text' | 'number' | 'date' | 'difficulty';
+
+/**
+ * sortFields.json 中的排序欄位設定 - 取值的欄位、鍵的型別與次要欄位
+ * localOnly 表示正式 API 不支援此排序，須載入完整結果後在本地排序
+ */
+interface SortFieldConfig {
+  source: keyof YogaPose;
+  type: SortKeyType;
+  tieBreakers: SortField[];
+  localOnly?: boolean;
+}
+
+/**
+ * 排序欄位定義 - 取出比較用的鍵，以及主鍵相同時依序比較的次要欄位
+ */
+interface SortDefinition {
+  key: (pose: YogaPose) => SortKey;
+  tieBreakers: SortField[];
+}
+
+// 文字排序（伺服器與本地使用相同的語系設定）
+const collator = new Intl.Collator('zh-TW', { numeric: true, sensitivity: 'base' });
+
+/**
+ * 解析日期為時間戳，無效日期回傳 null
+ */
+function toTimestamp(value: string): number | null {
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * 難度順序 BEGINNER → INTERMEDIATE → ADVANCED，未知難度回傳 null
+ */
+function difficultyOrdinal(difficulty: string): number | null {
+  const index = DIFFICULTY_LEVELS.indexOf((difficulty || '').toUpperCase());
+  return index === -1 ? null : index;
+}
+
+// 各型別取出排序鍵的方式（server.js 使用相同規則）
+const KEY_READERS: Record<SortKeyType, (value: unknown) => SortKey> = {
+  text: value => (typeof value === 'string' && value) || null,
+  number: value => typeof value === 'number' && Number.isFinite(value) ? value : null,
+  date: value => toTimestamp(String(value ?? '')),
+  difficulty: value => difficultyOrdinal(String(value ?? ''))
+};
+
+// 排序欄位設定，與 server.js 共用
+const SORT_FIELDS = sortFields.fields as Record<SortField, SortFieldConfig>;
+
+// 排序欄位註冊表 - 欄位與次要欄位定義在 sortFields.json
+const SORT_REGISTRY = Object.fromEntries(
+  Object.entries(SORT_FIELDS).map(([field, config]) => [field, {
+    key: (pose: YogaPose) => KEY_READERS[config.type](pose[config.source]),
+    tieBreakers: config.tieBreakers
+  }])
+) as Record<SortField, SortDefinition>;
+
+// 排序選單的顯示名稱
+export const SORT_FIELD_LABELS: Record<SortField, string> = {
+  name: '按名稱排序',
+  difficulty: '按難度排序',
+  duration_minutes: '按時長排序',
+  category: '按分類排序',
+  published_at: '按發布日期排序',
+  updated_at: '按更新日期排序',
+  created_at: '按建立日期排序'
+};
+
+// 正式 API 不支援的排序欄位
+const LOCAL_ONLY_SORTS = new Set(
+  Object.entries(SORT_FIELDS).filter(([, config]) => config.localOnly).map(([field]) => field)
+);
+
+// 舊版排序值的別名
+const SORT_ALIASES: Record<string, SortField> = sortFields.aliases as Record<string, SortField>;
+
+/**
+ * 是否為已註冊的排序欄位
+ */
+export function isSortField(value: string): value is SortField {
+  return Object.prototype.hasOwnProperty.call(SORT_REGISTRY, value);
+}
+
+/**
+ * 是否為只能在本地進行的排序（正式 API 不支援）
+ */
+export function isLocalOnlySort(value: string | undefined): boolean {
+  const field = toSortField(value);
+  return field !== null && LOCAL_ONLY_SORTS.has(field);
+}
+
+/**
+ * 正規化排序欄位（含別名），無法辨識時回傳 null
+ */
+export function toSortField(value: string | undefined): SortField | null {
+  if (!value) return null;
+  const field = SORT_ALIASES[value] || value;
+  return isSortField(field) ? field : null;
+}
+
+/**
+ * 解析排序值，例如 name、difficulty-desc、title-asc；預設排序或無法辨識時回傳 null
+ */
+export function parseSortValue(value: string): SortSpec | null {
+  const separator = value.lastIndexOf('-');
+  const [name, order] = separator === -1 ? [value, 'asc'] : [value.slice(0, separator), value.slice(separator + 1)];
+  const field = toSortField(name);
+
+  if (!field || (order !== 'asc' && order !== 'desc')) return null;
+  return { field, order };
+}
+
+/**
+ * 將排序設定轉為排序值（用於過濾狀態與網址）
+ */
+export function formatSortValue(spec: SortSpec | null): string {
+  return spec ? `${spec.field}-${spec.order}` : 'default';
+}
+
+/**
+ * 比較兩個排序鍵 - 缺少資料的一律排在後面
+ */
+function compareKeys(a: SortKey, b: SortKey): number {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return collator.compare(String(a), String(b));
+}
+
+/**
+ * 建立比較函數 - 主鍵依指定方向，次要欄位固定升冪，最後以 id 排序確保分頁穩定
+ */
+export function createPoseComparator(field: SortField, order: SortOrder = 'asc'): (a: YogaPose, b: YogaPose) => number {
+  const direction = order === 'desc' ? -1 : 1;
+  const primary = SORT_REGISTRY[field];
+  const tieBreakers = primary.tieBreakers.map(name => SORT_REGISTRY[name]);
+
+  return (a, b) => {
+    const keyA = primary.key(a);
+    const keyB = primary.key(b);
+    // 缺少資料不受方向影響
+    const primaryResult = keyA === null || keyB === null ? compareKeys(keyA, keyB) : compareKeys(keyA, keyB) * direction;
+    if (primaryResult !== 0) return primaryResult;
+
+    for (const definition of tieBreakers) {
+      const result = compareKeys(definition.key(a), definition.key(b));
+      if (result !== 0) return result;
+    }
+
+    return a.id - b.id;
+  };
+}
+
+/**
+ * 依排序設定排序，回傳新陣列
+ */
+export function sortPoses(poses: YogaPose[], field: SortField, order: SortOrder = 'asc'): YogaPose[] {
+  return [...poses].sort(createPoseComparator(field, order));
+}
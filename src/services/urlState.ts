@@ -0,0 +1,95 @@
+import { UrlState } from '../types/index.js';
+import { DEFAULT_FILTER_STATE } from './filter.js';
+
+// 網址查詢參數名稱
+const PARAM_SEARCH = 'q';
+const PARAM_CATEGORY = 'category';
+const PARAM_DIFFICULTY = 'difficulty';
+const PARAM_MIN_DURATION = 'min';
+const PARAM_MAX_DURATION = 'max';
+const PARAM_TAG = 'tag';
+const PARAM_TAG_MODE = 'tags';
+const PARAM_INSTRUCTOR = 'instructor';
+const PARAM_SORT = 'sort';
+const PARAM_BOOKMARKS = 'bookmarks';
+const PARAM_COLLECTION = 'collection';
+const PARAM_PAGE = 'page';
+
+/**
+ * 預設狀態
+ */
+export const DEFAULT_URL_STATE: UrlState = {
+  ...DEFAULT_FILTER_STATE,
+  page: 1
+};
+
+/**
+ * 解析非負整數，無效時回傳 null
+ */
+function parseDuration(value: string | null): number | null {
+  const number = parseInt(value || '', 10);
+  return Number.isInteger(number) && number >= 0 ? number : null;
+}
+
+/**
+ * 從網址查詢字串解析狀態 - 無效的值使用預設值
+ * 多選條件以重複的參數表示，例如 ?category=站立式&category=平衡式
+ */
+export function readUrlState(search: string = window.location.search): UrlState {
+  const query = new URLSearchParams(search);
+  const page = parseInt(query.get(PARAM_PAGE) || '', 10);
+  const list = (name: string) => query.getAll(name).map(value => value.trim()).filter(Boolean);
+
+  return {
+    search: (query.get(PARAM_SEARCH) || '').trim(),
+    categories: list(PARAM_CATEGORY),
+    difficulties: list(PARAM_DIFFICULTY).map(value => value.toUpperCase()),
+    minDuration: parseDuration(query.get(PARAM_MIN_DURATION)),
+    maxDuration: parseDuration(query.get(PARAM_MAX_DURATION)),
+    tags: list(PARAM_TAG),
+    tagMode: query.get(PARAM_TAG_MODE) === 'all' ? 'and' : 'or',
+    instructor: (query.get(PARAM_INSTRUCTOR) || '').trim(),
+    sort: query.get(PARAM_SORT) || DEFAULT_URL_STATE.sort,
+    bookmarksOnly: query.get(PARAM_BOOKMARKS) === '1',
+    collection: (query.get(PARAM_COLLECTION) || '').trim(),
+    page: Number.isInteger(page) && page > 0 ? page : 1
+  };
+}
+
+/**
+ * 將狀態轉為查詢字串 - 預設值不寫入網址
+ */
+export function buildUrlQuery(state: UrlState): string {
+  const query = new URLSearchParams();
+
+  if (state.search) query.set(PARAM_SEARCH, state.search);
+  state.categories.forEach(category => query.append(PARAM_CATEGORY, category));
+  state.difficulties.forEach(difficulty => query.append(PARAM_DIFFICULTY, difficulty));
+  if (state.minDuration !== null) query.set(PARAM_MIN_DURATION, String(state.minDuration));
+  if (state.maxDuration !== null) query.set(PARAM_MAX_DURATION, String(state.maxDuration));
+  state.tags.forEach(tag => query.append(PARAM_TAG, tag));
+  if (state.tags.length > 1 && state.tagMode === 'and') query.set(PARAM_TAG_MODE, 'all');
+  if (state.instructor) query.set(PARAM_INSTRUCTOR, state.instructor);
+  if (state.sort && state.sort !== DEFAULT_URL_STATE.sort) query.set(PARAM_SORT, state.sort);
+  if (state.bookmarksOnly) query.set(PARAM_BOOKMARKS, '1');
+  if (state.collection) query.set(PARAM_COLLECTION, state.collection);
+  if (state.page > 1) query.set(PARAM_PAGE, String(state.page));
+
+  const queryString = query.toString();
+  return queryString ? `?${queryString}` : '';
+}
+
+/**
+ * 寫入網址 - push 會新增瀏覽紀錄，replace 只更新目前紀錄；網址未變更時不動作
+ */
+export function writeUrlState(state: UrlState, mode: 'push' | 'replace') {
+  const queryString = buildUrlQuery(state);
+  if (queryString === window.location.search) return;
+
+  const url = `${window.location.pathname}${queryString}${window.location.hash}`;
+  if (mode === 'push') {
+    history.pushState(null, '', url);
+  } else {
+    history.replaceState(null, '', url);
+  }
+}
@@ -0,0 +1,284 @@
+import {
+  YogaPose,
+  ApiResponse,
+  AuthResponse,
+  BookmarkListResponse,
+  CategoriesResponse,
+  ValidationIssue,
+  ValidationReport
+} from '../types/index.js';
+import { MalformedResponseError } from './errors.js';
+
+// 保留的驗證報告數量上限
+const MAX_REPORTS = 50;
+
+const reports: ValidationReport[] = [];
+
+/**
+ * 驗證上下文 - 收集單次解碼過程中的問題
+ */
+class DecodeContext {
+  readonly issues: ValidationIssue[] = [];
+  droppedItems: number = 0;
+
+  constructor(readonly endpoint: string) {}
+
+  report(path: string, message: string, action: ValidationIssue['action']) {
+    this.issues.push({ path, message, action });
+  }
+
+  /**
+   * 有問題時才儲存報告並輸出警告
+   */
+  finish() {
+    if (this.issues.length === 0) return;
+
+    const report: ValidationReport = {
+      endpoint: this.endpoint,
+      timestamp: new Date().toISOString(),
+      issues: this.issues,
+      droppedItems: this.droppedItems
+    };
+    reports.push(report);
+    if (reports.length > MAX_REPORTS) reports.shift();
+
+    console.warn(`資料驗證發現 ${this.issues.length} 個問題 (${this.endpoint})，丟棄 ${this.droppedItems} 筆:`, this.issues);
+  }
+}
+
+/**
+ * 取得最近的驗證報告（用於檢查後端資料格式變更）
+ */
+export function getValidationReports(): ValidationReport[] {
+  return [...reports];
+}
+
+/**
+ * 清除驗證報告
+ */
+export function clearValidationReports() {
+  reports.length = 0;
+}
+
+/**
+ * 判斷是否為一般物件
+ */
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 解碼字串欄位 - 數字會轉為字串，其他型別使用空字串
+ */
+function decodeString(ctx: DecodeContext, value: unknown, path: string, required: boolean = true): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') {
+    ctx.report(path, `預期字串，收到數字 ${value}`, 'coerced');
+    return String(value);
+  }
+  if (value !== undefined && value !== null) {
+    ctx.report(path, `預期字串，收到 ${typeof value}`, 'defaulted');
+  } else if (required) {
+    ctx.report(path, '缺少欄位', 'defaulted');
+  }
+  return '';
+}
+
+/**
+ * 解碼數字欄位 - 數字字串會被轉換，無法轉換時使用預設值
+ */
+function decodeNumber(ctx: DecodeContext, value: unknown, path: string, fallback: number): number {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+    ctx.report(path, `預期數字，收到字串 "${value}"`, 'coerced');
+    return Number(value);
+  }
+  ctx.report(path, `預期數字，收到 ${JSON.stringify(value)}`, 'defaulted');
+  return fallback;
+}
+
+/**
+ * 解碼字串陣列 - 逗號分隔字串會被拆開，非字串元素會被移除
+ */
+function decodeStringArray(ctx: DecodeContext, value: unknown, path: string): string[] {
+  if (Array.isArray(value)) {
+    const strings = value.filter((entry): entry is string => typeof entry === 'string');
+    if (strings.length !== value.length) {
+      ctx.report(path, `移除 ${value.length - strings.length} 個非字串元素`, 'coerced');
+    }
+    return strings;
+  }
+  if (typeof value === 'string') {
+    ctx.report(path, '預期陣列，收到字串', 'coerced');
+    return value.split(',').map(entry => entry.trim()).filter(Boolean);
+  }
+  ctx.report(path, `預期陣列，收到 ${value === undefined ? '空值' : typeof value}`, 'defaulted');
+  return [];
+}
+
+/**
+ * 解碼單筆瑜伽動作 - 缺少 id 或 title 時回傳 null
+ */
+function decodePose(ctx: DecodeContext, raw: unknown, path: string): YogaPose | null {
+  if (!isRecord(raw)) {
+    ctx.report(path, '項目不是物件', 'dropped');
+    return null;
+  }
+
+  const id = typeof raw.id === 'string' ? Number(raw.id) : raw.id;
+  if (typeof id !== 'number' || !Number.isInteger(id)) {
+    ctx.report(`${path}.id`, `無效的 id: ${JSON.stringify(raw.id)}`, 'dropped');
+    return null;
+  }
+
+  if (typeof raw.title !== 'string' || raw.title.trim() === '') {
+    ctx.report(`${path}.title`, '缺少標題', 'dropped');
+    return null;
+  }
+
+  const difficulty = decodeString(ctx, raw.difficulty ?? raw.level, `${path}.difficulty`);
+  const imageUrl = decodeString(ctx, raw.image_url ?? raw.imageUrl, `${path}.image_url`);
+  const videoUrl = decodeString(ctx, raw.video_url ?? raw.videoUrl, `${path}.video_url`, false);
+
+  return {
+    id,
+    title: raw.title,
+    description: decodeString(ctx, raw.description, `${path}.description`),
+    category: decodeString(ctx, raw.category, `${path}.category`),
+    tags: decodeStringArray(ctx, raw.tags, `${path}.tags`),
+    sanskrit_name: decodeString(ctx, raw.sanskrit_name, `${path}.sanskrit_name`),
+    difficulty,
+    duration_minutes: decodeNumber(ctx, raw.duration_minutes, `${path}.duration_minutes`, 0),
+    instructor: decodeString(ctx, raw.instructor, `${path}.instructor`),
+    created_at: decodeString(ctx, raw.created_at, `${path}.created_at`),
+    updated_at: decodeString(ctx, raw.updated_at, `${path}.updated_at`),
+    published_at: decodeString(ctx, raw.published_at, `${path}.published_at`),
+    image_url: imageUrl,
+    video_url: videoUrl,
+    benefits: decodeStringArray(ctx, raw.benefits, `${path}.benefits`),
+    // 確保向後相容的欄位存在
+    imageUrl,
+    videoUrl,
+    level: difficulty,
+    keys: typeof raw.keys === 'string' && raw.keys ? raw.keys : '暫無要點資訊',
+    cautions: typeof raw.cautions === 'string' && raw.cautions ? raw.cautions : '暫無注意事項'
+  };
+}
+
+/**
+ * 解碼單筆瑜伽動作回應 - 無效時拋出 MalformedResponseError
+ */
+export function decodeYogaPose(raw: unknown, endpoint: string): YogaPose {
+  const ctx = new DecodeContext(endpoint);
+  const pose = decodePose(ctx, raw, 'pose');
+  ctx.finish();
+
+  if (!pose) {
+    throw new MalformedResponseError('瑜伽動作資料格式錯誤', endpoint, null);
+  }
+  return pose;
+}
+
+/**
+ * 解碼瑜伽動作列表回應 - 只丟棄無效的項目，不丟棄整頁
+ */
+export function decodeYogaPoseList(
+  raw: unknown,
+  endpoint: string,
+  defaults: { page?: number; limit?: number } = {}
+): ApiResponse<YogaPose> {
+  if (!isRecord(raw) || !Array.isArray(raw.items)) {
+    throw new MalformedResponseError('瑜伽動作列表缺少 items 陣列', endpoint, null);
+  }
+
+  const ctx = new DecodeContext(endpoint);
+  const items: YogaPose[] = [];
+
+  raw.items.forEach((entry: unknown, index: number) => {
+    const pose = decodePose(ctx, entry, `items[${index}]`);
+    if (pose) {
+      items.push(pose);
+    } else {
+      ctx.droppedItems++;
+    }
+  });
+
+  const pagination = isRecord(raw.pagination) ? raw.pagination : {};
+  if (!isRecord(raw.pagination)) {
+    ctx.report('pagination', '缺少分頁資訊', 'defaulted');
+  }
+
+  const result: ApiResponse<YogaPose> = {
+    items,
+    pagination: {
+      page: decodeNumber(ctx, pagination.page ?? defaults.page ?? 1, 'pagination.page', defaults.page || 1),
+      limit: decodeNumber(ctx, pagination.limit ?? defaults.limit ?? 10, 'pagination.limit', defaults.limit || 10),
+      total: decodeNumber(ctx, pagination.total ?? raw.items.length, 'pagination.total', raw.items.length)
+    }
+  };
+
+  ctx.finish();
+  return result;
+}
+
+/**
+ * 解碼認證回應
+ */
+export function decodeAuthResponse(raw: unknown, endpoint: string): AuthResponse {
+  const ctx = new DecodeContext(endpoint);
+
+  if (!isRecord(raw) || typeof raw.token !== 'string' || raw.token === '') {
+    ctx.report('token', '缺少 token', 'dropped');
+    ctx.finish();
+    throw new MalformedResponseError('認證回應缺少 token', endpoint, null);
+  }
+
+  const result: AuthResponse = {
+    user_id: decodeNumber(ctx, raw.user_id, 'user_id', 0),
+    token: raw.token
+  };
+
+  ctx.finish();
+  return result;
+}
+
+/**
+ * 解碼收藏列表回應 - 移除非數字的 id
+ */
+export function decodeBookmarkListResponse(raw: unknown, endpoint: string): BookmarkListResponse {
+  if (!isRecord(raw) || !Array.isArray(raw.item_ids)) {
+    throw new MalformedResponseError('收藏列表缺少 item_ids 陣列', endpoint, null);
+  }
+
+  const ctx = new DecodeContext(endpoint);
+  const itemIds: number[] = [];
+
+  raw.item_ids.forEach((entry: unknown, index: number) => {
+    const id = typeof entry === 'string' ? Number(entry) : entry;
+    if (typeof id === 'number' && Number.isInteger(id)) {
+      if (typeof entry === 'string') ctx.report(`item_ids[${index}]`, `預期數字，收到字串 "${entry}"`, 'coerced');
+      itemIds.push(id);
+    } else {
+      ctx.report(`item_ids[${index}]`, `無效的 id: ${JSON.stringify(entry)}`, 'dropped');
+      ctx.droppedItems++;
+    }
+  });
+
+  ctx.finish();
+  return { item_ids: itemIds };
+}
+
+/**
+ * 解碼分類列表回應 - 移除空值與重複分類
+ */
+export function decodeCategoriesResponse(raw: unknown, endpoint: string): CategoriesResponse {
+  if (!isRecord(raw) || !Array.isArray(raw.categories)) {
+    throw new MalformedResponseError('分類回應缺少 categories 陣列', endpoint, null);
+  }
+
+  const ctx = new DecodeContext(endpoint);
+  const categories = decodeStringArray(ctx, raw.categories, 'categories').filter(Boolean);
+
+  ctx.finish();
+  return { categories: [...new Set(categories)] };
+}
@@ -0,0 +1,214 @@
+/**
+ * 虛擬列表選項
+ */
+export interface VirtualListOptions<T> {
+  // 取得項目的唯一鍵（用於記錄已量測的高度）
+  getKey: (item: T) => number | string;
+  // 產生單個項目的 HTML
+  renderItem: (item: T) => string;
+  // 每次重新渲染後呼叫，用於綁定事件
+  onRender?: () => void;
+  // 尚未量測前的預估高度（px）
+  estimatedHeight?: number;
+  // 可視範圍上下額外渲染的距離（px）
+  overscan?: number;
+}
+
+// 預設預估高度（含圖片與影片的卡片）
+const DEFAULT_ESTIMATED_HEIGHT = 640;
+
+// 預設額外渲染距離
+const DEFAULT_OVERSCAN = 1200;
+
+/**
+ * 依項目高度計算與 [from, to]（列表座標，px）重疊的項目範圍，沒有重疊時 start 為 end + 1
+ */
+export function visibleRange(heights: number[], from: number, to: number): { start: number; end: number } {
+  let start = heights.length;
+  let end = heights.length - 1;
+  let offset = 0;
+
+  for (let i = 0; i < heights.length; i++) {
+    const bottom = offset + heights[i];
+    if (start === heights.length && bottom > from) start = i;
+    if (offset > to) {
+      end = i - 1;
+      break;
+    }
+    offset = bottom;
+  }
+
+  return { start: Math.min(start, end + 1), end };
+}
+
+/**
+ * 虛擬列表 - 只把可視範圍附近的項目放進 DOM，其餘以上下留白撐出高度
+ * 項目高度在渲染後量測並記錄，支援 ion-content 或視窗捲動
+ */
+export class VirtualList<T> {
+  readonly container: HTMLElement;
+  private options: VirtualListOptions<T> & { estimatedHeight: number; overscan: number };
+  private items: T[] = [];
+  private heights: Map<number | string, number> = new Map();
+  private range: { start: number; end: number } = { start: 0, end: -1 };
+  private scrollTarget: HTMLElement | Window = window;
+  private frame: number | null = null;
+  private resizeObserver: ResizeObserver | null = null;
+  private onScroll = () => this.scheduleUpdate();
+
+  constructor(container: HTMLElement, options: VirtualListOptions<T>) {
+    this.container = container;
+    this.options = {
+      estimatedHeight: DEFAULT_ESTIMATED_HEIGHT,
+      overscan: DEFAULT_OVERSCAN,
+      ...options
+    };
+
+    if (typeof ResizeObserver !== 'undefined') {
+      this.resizeObserver = new ResizeObserver(() => this.measure());
+    }
+
+    window.addEventListener('resize', this.onScroll);
+    this.attachScrollTarget();
+  }
+
+  /**
+   * 設定列表項目並重新渲染
+   */
+  setItems(items: T[]) {
+    this.items = items;
+    this.render(true);
+  }
+
+  /**
+   * 以目前的項目重新渲染可視範圍（例如收藏狀態改變）
+   */
+  refresh() {
+    this.render(true);
+  }
+
+  /**
+   * 移除事件監聽
+   */
+  destroy() {
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+    this.resizeObserver?.disconnect();
+    this.scrollTarget.removeEventListener('scroll', this.onScroll);
+    window.removeEventListener('resize', this.onScroll);
+  }
+
+  /**
+   * 使用最近的 ion-content 作為捲動容器，找不到時使用視窗
+   */
+  private async attachScrollTarget() {
+    const content = this.container.closest('ion-content') as any;
+    if (content && typeof content.getScrollElement === 'function') {
+      try {
+        this.scrollTarget = await content.getScrollElement();
+      } catch {
+        this.scrollTarget = window;
+      }
+    }
+
+    this.scrollTarget.addEventListener('scroll', this.onScroll, { passive: true });
+    this.scheduleUpdate();
+  }
+
+  /**
+   * 在下一個畫面更新可視範圍
+   */
+  private scheduleUpdate() {
+    if (this.frame !== null) return;
+    this.frame = requestAnimationFrame(() => {
+      this.frame = null;
+      this.render(false);
+    });
+  }
+
+  /**
+   * 取得項目高度（已量測或預估值）
+   */
+  private heightOf(item: T): number {
+    return this.heights.get(this.options.getKey(item)) ?? this.options.estimatedHeight;
+  }
+
+  /**
+   * 依捲動位置計算需要渲染的項目範圍
+   */
+  private computeRange(): { start: number; end: number } {
+    const viewportTop = this.scrollTarget instanceof Window ? 0 : this.scrollTarget.getBoundingClientRect().top;
+    const viewportHeight = this.scrollTarget instanceof Window ? window.innerHeight : this.scrollTarget.clientHeight;
+
+    // 可視範圍在列表座標中的位置
+    const listTop = this.container.getBoundingClientRect().top - viewportTop;
+    const from = -listTop - this.options.overscan;
+    const to = -listTop + viewportHeight + this.options.overscan;
+
+    return visibleRange(this.items.map(item => this.heightOf(item)), from, to);
+  }
+
+  /**
+   * 計算一段項目的總高度
+   */
+  private sumHeights(start: number, end: number): number {
+    let total = 0;
+    for (let i = start; i < end; i++) total += this.heightOf(this.items[i]);
+    return total;
+  }
+
+  /**
+   * 渲染可視範圍 - 範圍未改變且非強制時不動作
+   */
+  private render(force: boolean) {
+    const range = this.computeRange();
+    if (!force && range.start === this.range.start && range.end === this.range.end) return;
+    this.range = range;
+
+    const visible = this.items.slice(range.start, range.end + 1);
+    const top = this.sumHeights(0, range.start);
+    const bottom = this.sumHeights(range.end + 1, this.items.length);
+
+    this.resizeObserver?.disconnect();
+    this.container.innerHTML = `
+      <div class="virtual-spacer" style="height: ${top}px;"></div>
+      ${visible.map(item => `
+        <div class="virtual-item" data-key="${this.options.getKey(item)}">${this.options.renderItem(item)}</div>
+      `).join('')}
+      <div class="virtual-spacer" style="height: ${bottom}px;"></div>
+    `;
+
+    this.container.querySelectorAll<HTMLElement>('.virtual-item').forEach(element => {
+      this.resizeObserver?.observe(element);
+    });
+
+    this.measure();
+    this.options.onRender?.();
+  }
+
+  /**
+   * 量測已渲染項目的實際高度，並更新下方留白
+   */
+  private measure() {
+    let changed = false;
+
+    this.container.querySelectorAll<HTMLElement>('.virtual-item').forEach((element, index) => {
+      const item = this.items[this.range.start + index];
+      if (!item || element.offsetHeight === 0) return;
+
+      const itemKey = this.options.getKey(item);
+      if (this.heights.get(itemKey) !== element.offsetHeight) {
+        this.heights.set(itemKey, element.offsetHeight);
+        changed = true;
+      }
+    });
+
+    if (!changed) return;
+
+    const spacers = this.container.querySelectorAll<HTMLElement>(':scope > .virtual-spacer');
+    const bottomSpacer = spacers[spacers.length - 1];
+    if (bottomSpacer) {
+      bottomSpacer.style.height = `${this.sumHeights(this.range.end + 1, this.items.length)}px`;
+    }
+    this.scheduleUpdate();
+  }
+}
@@ -23,14 +23,33 @@ export interface YogaPose {
   cautions?: string;
 }
 
+// 分頁資訊型別
+export interface PaginationInfo {
+  page: number;
+  limit: number;
+  total: number;
+}
+
 // API 回應型別
 export interface ApiResponse<T> {
   items: T[];
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-  };
+  pagination: PaginationInfo;
+  // 由快取提供時附帶的快取資訊
+  cache?: CacheInfo;
+}
+
+// 列表請求選項型別
+export interface FetchOptions<T> {
+  // 取消請求用的訊號（被較新的請求取代時）
+  signal?: AbortSignal;
+  // 過期快取在背景更新完成後的回調
+  onRevalidate?: (data: T) => void;
+}
+
+// 快取資訊型別
+export interface CacheInfo {
+  cachedAt: number;
+  stale: boolean;
 }
 
 // 錯誤型別
@@ -59,6 +78,15 @@ export interface AuthRequest {
 // 收藏回應型別
 export interface BookmarkResponse {
   message: 'newly bookmarked' | 'already bookmarked' | 'newly deleted' | 'already deleted';
+  // 離線時加入待同步佇列，尚未送達伺服器
+  pending?: boolean;
+}
+
+// 待同步的收藏變更型別
+export interface BookmarkMutation {
+  itemId: number;
+  action: 'add' | 'remove';
+  queuedAt: number;
 }
 
 // 收藏列表回應型別
@@ -69,6 +97,18 @@ export interface BookmarkListResponse {
 // 載入狀態型別
 export type LoadingState = 'idle' | 'loading' | 'success' | 'error';
 
+// 可排序的欄位
+export type SortField = 'name' | 'difficulty' | 'duration_minutes' | 'category' | 'published_at' | 'updated_at' | 'created_at';
+
+// 排序方向
+export type SortOrder = 'asc' | 'desc';
+
+// 排序設定
+export interface SortSpec {
+  field: SortField;
+  order: SortOrder;
+}
+
 // 查詢參數型別
 export interface QueryParams {
   page?: number;
@@ -76,5 +116,253 @@ export interface QueryParams {
   search?: string;
   category?: string;
   sort?: string;
-  order?: 'asc' | 'desc';
-}
\ No newline at end of file
+  order?: SortOrder;
+  // 以下條件 API 不支援，在本地過濾（單一分類除外）
+  categories?: string[];
+  difficulty?: string[];
+  minDuration?: number;
+  maxDuration?: number;
+  tags?: string[];
+  tagMode?: TagMatchMode;
+  instructor?: string;
+  // 查詢語法產生的本地條件：其餘關鍵字（皆須符合）與排除條件
+  terms?: string[];
+  excludeTerms?: string[];
+  excludeTags?: string[];
+  excludeCategories?: string[];
+  excludeDifficulties?: string[];
+  excludeInstructors?: string[];
+}
+
+// 標籤比對方式 - and 需符合全部標籤，or 符合任一標籤即可
+export type TagMatchMode = 'and' | 'or';
+
+// 過濾選項型別 - 由資料集整理出的可選值
+export interface FilterOptions {
+  categories: string[];
+  difficulties: string[];
+  tags: string[];
+  instructors: string[];
+  maxDuration: number;
+}
+
+// 過濾條件狀態型別 - 對應搜尋欄、分類、排序與只看收藏
+export interface FilterState {
+  search: string;
+  categories: string[];
+  difficulties: string[];
+  minDuration: number | null;
+  maxDuration: number | null;
+  tags: string[];
+  tagMode: TagMatchMode;
+  instructor: string;
+  sort: string;
+  bookmarksOnly: boolean;
+  // 目前篩選的收藏集 id，空字串表示不限
+  collection: string;
+}
+
+// 前端路由型別 - 列表頁或單個瑜伽動作的詳細頁
+export type Route =
+  | { name: 'list' }
+  | { name: 'pose'; id: number };
+
+// 網址狀態型別 - 過濾條件加上已載入的頁數
+export interface UrlState extends FilterState {
+  page: number;
+}
+
+// 請求攔截器型別 - 可在送出前修改請求設定
+export type RequestInterceptor = (url: string, init: RequestInit) => RequestInit | Promise<RequestInit>;
+
+// 回應攔截器型別 - 可在處理前檢查或替換回應
+export type ResponseInterceptor = (response: Response, url: string) => Response | Promise<Response>;
+
+// API 客戶端設定型別
+export interface ApiConfig {
+  baseUrl: string;
+  timeout: number;
+  retries: number;
+  retryDelay: number;
+  headers: Record<string, string>;
+  requestInterceptors: RequestInterceptor[];
+  responseInterceptors: ResponseInterceptor[];
+}
+
+// 分類列表回應型別
+export interface CategoriesResponse {
+  categories: string[];
+}
+
+// 資料驗證問題型別
+export interface ValidationIssue {
+  path: string;
+  message: string;
+  action: 'coerced' | 'defaulted' | 'dropped';
+}
+
+// 資料驗證報告型別
+export interface ValidationReport {
+  endpoint: string;
+  timestamp: string;
+  issues: ValidationIssue[];
+  droppedItems: number;
+}
+
+// 資料來源型別
+export type DataSource = 'api' | 'local';
+
+// 登出原因型別
+export type LogoutReason = 'user' | 'expired' | 'unauthorized';
+
+// 分頁載入方式 - 捲動到底自動載入、點擊按鈕載入，或分頁跳頁瀏覽
+export type PagingMode = 'infinite' | 'manual' | 'pages';
+
+// 收藏集 - 一個動作可屬於多個收藏集，每個收藏集各有該動作的個人筆記
+export interface BookmarkCollection {
+  id: string;
+  name: string;
+  // 依加入順序
+  itemIds: number[];
+  // 動作 id → 筆記
+  notes: Record<number, string>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// 練習序列中的一個動作 - 保存動作的基本資料，離線時也能計算時間
+export interface SequenceStep {
+  poseId: number;
+  title: string;
+  category: string;
+  difficulty: string;
+  // 停留時間（分鐘），預設為動作的 duration_minutes
+  holdMinutes: number;
+}
+
+// 練習序列
+export interface PracticeSequence {
+  id: string;
+  name: string;
+  steps: SequenceStep[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// 練習序列摘要 - 總時間、各分類與難度的時間，以及提醒
+export interface SequenceSummary {
+  totalMinutes: number;
+  byCategory: Record<string, number>;
+  byDifficulty: Record<string, number>;
+  warnings: string[];
+}
+
+// 引導練習的一個步驟
+export interface PracticeStep {
+  pose: YogaPose;
+  // 停留秒數，未指定時使用動作的 duration_minutes
+  seconds?: number;
+}
+
+// 練習紀錄中的單一動作
+export interface PracticePoseRecord {
+  poseId: number;
+  title: string;
+  category: string;
+  difficulty: string;
+  // 開始練習此動作的時間
+  practicedAt: number;
+  plannedSeconds: number;
+  practicedSeconds: number;
+  // 未做滿預定時間即跳過
+  skipped: boolean;
+}
+
+// 練習紀錄 - 一次引導練習的摘要
+export interface PracticeSessionRecord {
+  id: string;
+  name: string;
+  // 由練習序列開始時的序列 id
+  sequenceId: string | null;
+  startedAt: number;
+  endedAt: number;
+  // 實際練習秒數（不含暫停與轉換倒數）
+  totalSeconds: number;
+  // 是否完成所有動作（未提前結束）
+  completed: boolean;
+  poses: PracticePoseRecord[];
+}
+
+// 每週練習量 - weekStart 為該週星期一 00:00（本地時間）
+export interface WeeklyPractice {
+  weekStart: number;
+  minutes: number;
+  sessions: number;
+}
+
+// 單一動作的累計練習量
+export interface PosePracticeCount {
+  poseId: number;
+  title: string;
+  count: number;
+  minutes: number;
+}
+
+// 練習統計 - 時間皆為分鐘
+export interface PracticeStats {
+  totalSessions: number;
+  totalMinutes: number;
+  practiceDays: number;
+  // 連續練習天數（今天尚未練習時從昨天起算）
+  currentStreak: number;
+  longestStreak: number;
+  // 由舊到新
+  weekly: WeeklyPractice[];
+  byCategory: Record<string, number>;
+  byDifficulty: Record<string, number>;
+  topPoses: PosePracticeCount[];
+}
+
+// 自動排課條件
+export interface PlanRequest {
+  targetMinutes: number;
+  // 可接受的最高難度（BEGINNER / INTERMEDIATE / ADVANCED）
+  maxDifficulty: string;
+  focusCategories: string[];
+  focusTags: string[];
+  excludeTags: string[];
+  // 相同條件與種子會產生相同的課表
+  seed: string;
+}
+
+// 課表中的動作與所屬階段
+export interface PlannedPose {
+  pose: YogaPose;
+  phase: string;
+}
+
+// 自動排課結果
+export interface SessionPlan {
+  request: PlanRequest;
+  poses: PlannedPose[];
+  totalMinutes: number;
+  warnings: string[];
+}
+
+// 應用程式事件型別 - 事件名稱對應的資料
+export interface AppEventMap {
+  'auth:login': { userId: number };
+  'auth:logout': { reason: LogoutReason };
+  'auth:sessionWarning': { remainingMs: number };
+  'auth:sessionExpired': { expiredAt: number };
+  'bookmark:changed': { poseId: number; bookmarked: boolean };
+  'bookmarks:synced': { itemIds: number[]; pendingIds: number[] };
+  // 待同步佇列送出完畢 - rejected 為被伺服器拒絕而丟棄的變更
+  'bookmarks:flushed': { sentIds: number[]; rejected: BookmarkMutation[] };
+  'collections:changed': { collections: BookmarkCollection[] };
+  'sequences:changed': { sequences: PracticeSequence[]; activeId: string | null };
+  'practice:recorded': { session: PracticeSessionRecord };
+  // fromSearchBar 為 true 表示由搜尋欄輸入觸發（逐字輸入不應新增瀏覽紀錄）
+  'filters:changed': { params: QueryParams; fromSearchBar: boolean };
+  'dataSource:changed': { source: DataSource; previous: DataSource };
+}
@@ -0,0 +1,82 @@
+import { memoryStorage } from './helpers/memoryStorage.js';
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { BookmarkOutbox } from '../src/services/bookmarkOutbox.js';
+
+const STORAGE_KEY = 'bookmark_outbox_test';
+
+let outbox: BookmarkOutbox;
+
+beforeEach(() => {
+  memoryStorage.clear();
+  outbox = new BookmarkOutbox(STORAGE_KEY);
+});
+
+const actions = () => outbox.list().map(mutation => `${mutation.action}:${mutation.itemId}`);
+
+test('依加入順序保留不同項目的變更', () => {
+  outbox.enqueue(1, 'add');
+  outbox.enqueue(2, 'remove');
+
+  assert.deepEqual(actions(), ['add:1', 'remove:2']);
+  assert.equal(outbox.size, 2);
+  assert.deepEqual([...outbox.pendingIds()], [1, 2]);
+});
+
+test('重複的操作只保留一筆', () => {
+  outbox.enqueue(1, 'add');
+  outbox.enqueue(1, 'add');
+
+  assert.deepEqual(actions(), ['add:1']);
+});
+
+test('相反操作互相抵銷，清空時移除儲存資料', () => {
+  outbox.enqueue(1, 'add');
+  outbox.enqueue(1, 'remove');
+
+  assert.deepEqual(actions(), []);
+  assert.equal(memoryStorage.getItem(STORAGE_KEY), null);
+});
+
+test('送出中的變更不會被抵銷，相反操作排在其後', () => {
+  outbox.enqueue(1, 'add');
+  const [sending] = outbox.list();
+  outbox.setInFlight(sending);
+
+  outbox.enqueue(1, 'remove');
+  assert.deepEqual(actions(), ['add:1', 'remove:1']);
+
+  // 送出完成後移除的只有送出中的那一筆
+  outbox.remove(sending);
+  outbox.setInFlight(null);
+  assert.deepEqual(actions(), ['remove:1']);
+});
+
+test('送出中的變更之後的相反操作仍可互相抵銷', () => {
+  outbox.enqueue(1, 'add');
+  outbox.setInFlight(outbox.list()[0]);
+  outbox.enqueue(1, 'remove');
+  outbox.enqueue(1, 'add');
+
+  assert.deepEqual(actions(), ['add:1']);
+});
+
+test('套用待同步變更得到使用者看到的收藏狀態', () => {
+  outbox.enqueue(3, 'add');
+  outbox.enqueue(1, 'remove');
+
+  assert.deepEqual(outbox.applyTo([1, 2]).sort(), [2, 3]);
+});
+
+test('佇列以 localStorage 保存，重新建立後仍然存在', () => {
+  outbox.enqueue(5, 'add');
+
+  assert.deepEqual(new BookmarkOutbox(STORAGE_KEY).list().map(mutation => mutation.itemId), [5]);
+  assert.deepEqual(new BookmarkOutbox('bookmark_outbox_other').list(), []);
+});
+
+test('儲存資料損毀時視為空佇列', () => {
+  memoryStorage.setItem(STORAGE_KEY, '{not json');
+
+  assert.deepEqual(outbox.list(), []);
+});
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DataCache, normalizeQueryKey } from '../src/services/cache.js';
+
+test('查詢鍵忽略空值、鍵名順序與陣列順序', () => {
+  const key = normalizeQueryKey({ search: ' 戰士 ', page: 1, category: '', tags: ['b', 'a'], instructor: undefined });
+
+  assert.equal(key, normalizeQueryKey({ tags: ['a', 'b'], page: 1, search: '戰士' }));
+  assert.equal(key, new URLSearchParams([['page', '1'], ['search', '戰士'], ['tags', 'a,b']]).toString());
+});
+
+test('超過 TTL 的資料標記為過期但仍可讀取，超過 maxAge 才移除', async t => {
+  let now = 1_000;
+  t.mock.method(Date, 'now', () => now);
+  const cache = new DataCache({ maxAge: 100 });
+
+  await cache.set('poses', [1, 2], 10);
+  assert.deepEqual(await cache.get('poses'), { value: [1, 2], storedAt: 1_000, stale: false });
+
+  now = 1_050;
+  assert.equal((await cache.get('poses'))?.stale, true);
+
+  now = 1_101;
+  assert.equal(await cache.get('poses'), null);
+});
+
+test('超過容量上限時淘汰最久未使用的項目', async t => {
+  let now = 0;
+  t.mock.method(Date, 'now', () => ++now);
+  const cache = new DataCache({ maxEntries: 2 });
+
+  await cache.set('a', 'A', 1_000);
+  await cache.set('b', 'B', 1_000);
+  await cache.get('a');
+  await cache.set('c', 'C', 1_000);
+
+  assert.equal(await cache.get('b'), null);
+  assert.equal((await cache.get('a'))?.value, 'A');
+  assert.equal((await cache.get('c'))?.value, 'C');
+});
@@ -0,0 +1,33 @@
+/**
+ * 測試用的記憶體 localStorage - 匯入時安裝到全域，clear() 清除所有資料
+ */
+class MemoryStorage {
+  private data = new Map<string, string>();
+
+  get length(): number {
+    return this.data.size;
+  }
+
+  getItem(key: string): string | null {
+    return this.data.has(key) ? this.data.get(key)! : null;
+  }
+
+  setItem(key: string, value: string) {
+    this.data.set(key, String(value));
+  }
+
+  removeItem(key: string) {
+    this.data.delete(key);
+  }
+
+  key(index: number): string | null {
+    return [...this.data.keys()][index] ?? null;
+  }
+
+  clear() {
+    this.data.clear();
+  }
+}
+
+export const memoryStorage = new MemoryStorage();
+(globalThis as any).localStorage = memoryStorage;
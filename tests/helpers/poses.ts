@@ -0,0 +1,30 @@
+import { YogaPose } from '../../src/types/index.js';
+
+/**
+ * 建立測試用的瑜伽動作，未指定的欄位使用預設值
+ */
+export function makePose(overrides: Partial<YogaPose> & { id: number }): YogaPose {
+  const difficulty = overrides.difficulty ?? 'BEGINNER';
+  return {
+    title: `Pose ${overrides.id}`,
+    description: '',
+    category: '站立式',
+    tags: [],
+    sanskrit_name: '',
+    duration_minutes: 5,
+    instructor: '',
+    created_at: '2024-01-01',
+    updated_at: '2024-01-01',
+    published_at: '2024-01-01',
+    image_url: '',
+    video_url: '',
+    benefits: [],
+    imageUrl: '',
+    videoUrl: '',
+    keys: '',
+    cautions: '',
+    ...overrides,
+    difficulty,
+    level: difficulty
+  };
+}
@@ -0,0 +1,52 @@
+import { memoryStorage } from './helpers/memoryStorage.js';
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_PAGE_SIZE,
+  loadPageSize,
+  savePageSize,
+  loadPagingMode,
+  savePagingMode,
+  getTotalPages,
+  hasNextPage,
+  describeRange
+} from '../src/services/pagination.js';
+
+beforeEach(() => memoryStorage.clear());
+
+test('總頁數依 total 計算，沒有資料時為 1 頁', () => {
+  assert.equal(getTotalPages({ page: 1, limit: 6, total: 13 }), 3);
+  assert.equal(getTotalPages({ page: 1, limit: 6, total: 12 }), 2);
+  assert.equal(getTotalPages({ page: 1, limit: 6, total: 0 }), 1);
+});
+
+test('總數剛好是每頁數量的倍數時最後一頁沒有下一頁', () => {
+  assert.equal(hasNextPage({ page: 1, limit: 6, total: 12 }), true);
+  assert.equal(hasNextPage({ page: 2, limit: 6, total: 12 }), false);
+  assert.equal(hasNextPage({ page: 1, limit: 6, total: 0 }), false);
+});
+
+test('範圍文字包含起訖與總數，沒有資料時顯示提示', () => {
+  assert.equal(describeRange(7, 12, 13), '顯示第 7–12 項，共 13 項');
+  assert.equal(describeRange(1, 0, 0), '沒有符合條件的瑜伽動作');
+});
+
+test('每頁數量偏好不在選項內時使用預設值', () => {
+  assert.equal(loadPageSize(), DEFAULT_PAGE_SIZE);
+
+  savePageSize(12);
+  assert.equal(loadPageSize(), 12);
+
+  savePageSize(7);
+  assert.equal(loadPageSize(), DEFAULT_PAGE_SIZE);
+});
+
+test('載入方式偏好預設為捲動自動載入', () => {
+  assert.equal(loadPagingMode(), 'infinite');
+
+  savePagingMode('pages');
+  assert.equal(loadPagingMode(), 'pages');
+
+  memoryStorage.setItem('paging_mode', 'bogus');
+  assert.equal(loadPagingMode(), 'infinite');
+});
@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { computePracticeStats } from '../src/services/practiceStats.js';
+import { PracticeSessionRecord, PracticePoseRecord } from '../src/types/index.js';
+
+// 2024-06-12（星期三）上午 10 點，本地時間
+const NOW = new Date(2024, 5, 12, 10).getTime();
+
+/**
+ * 建立某天（相對 NOW 的天數）的練習紀錄
+ */
+function session(daysAgo: number, poses: Array<Partial<PracticePoseRecord> & { poseId: number; practicedSeconds: number }>): PracticeSessionRecord {
+  const startedAt = new Date(2024, 5, 12 - daysAgo, 8).getTime();
+  const records = poses.map(pose => ({
+    title: `Pose ${pose.poseId}`,
+    category: '站立式',
+    difficulty: 'BEGINNER',
+    practicedAt: startedAt,
+    plannedSeconds: pose.practicedSeconds,
+    skipped: false,
+    ...pose
+  }));
+  const totalSeconds = records.reduce((sum, pose) => sum + pose.practicedSeconds, 0);
+
+  return {
+    id: `s${daysAgo}-${totalSeconds}`,
+    name: '練習',
+    sequenceId: null,
+    startedAt,
+    endedAt: startedAt + totalSeconds * 1000,
+    totalSeconds,
+    completed: true,
+    poses: records
+  };
+}
+
+test('沒有紀錄時統計皆為 0，仍列出每一週', () => {
+  const stats = computePracticeStats([], { now: NOW, weeks: 4 });
+
+  assert.equal(stats.totalSessions, 0);
+  assert.equal(stats.currentStreak, 0);
+  assert.equal(stats.longestStreak, 0);
+  assert.equal(stats.weekly.length, 4);
+  assert.ok(stats.weekly.every(week => week.minutes === 0 && week.sessions === 0));
+  assert.equal(stats.weekly[3].weekStart, new Date(2024, 5, 10).getTime());
+});
+
+test('今天尚未練習時連續天數從昨天起算', () => {
+  const stats = computePracticeStats([
+    session(1, [{ poseId: 1, practicedSeconds: 60 }]),
+    session(2, [{ poseId: 1, practicedSeconds: 60 }]),
+    session(4, [{ poseId: 1, practicedSeconds: 60 }])
+  ], { now: NOW });
+
+  assert.equal(stats.currentStreak, 2);
+  assert.equal(stats.longestStreak, 2);
+  assert.equal(stats.practiceDays, 3);
+});
+
+test('中斷超過一天時目前連續天數歸零，但保留最長紀錄', () => {
+  const stats = computePracticeStats([
+    session(3, [{ poseId: 1, practicedSeconds: 60 }]),
+    session(4, [{ poseId: 1, practicedSeconds: 60 }]),
+    session(5, [{ poseId: 1, practicedSeconds: 60 }])
+  ], { now: NOW });
+
+  assert.equal(stats.currentStreak, 0);
+  assert.equal(stats.longestStreak, 3);
+});
+
+test('同一天多次練習只算一天，時間依週、分類與難度累計', () => {
+  const stats = computePracticeStats([
+    session(0, [{ poseId: 1, practicedSeconds: 120 }, { poseId: 2, practicedSeconds: 90, category: '坐姿式', difficulty: 'ADVANCED' }]),
+    session(0, [{ poseId: 1, practicedSeconds: 60 }]),
+    session(7, [{ poseId: 3, practicedSeconds: 30 }])
+  ], { now: NOW, weeks: 2 });
+
+  assert.equal(stats.totalSessions, 3);
+  assert.equal(stats.totalMinutes, 5);
+  assert.equal(stats.practiceDays, 2);
+  assert.equal(stats.currentStreak, 1);
+  assert.deepEqual(stats.weekly.map(week => [week.minutes, week.sessions]), [[0.5, 1], [4.5, 2]]);
+  assert.deepEqual(stats.byCategory, { 站立式: 3.5, 坐姿式: 1.5 });
+  assert.deepEqual(stats.byDifficulty, { BEGINNER: 3.5, ADVANCED: 1.5 });
+});
+
+test('最常練習的動作依次數、時間與名稱排序並限制數量', () => {
+  const stats = computePracticeStats([
+    session(0, [{ poseId: 1, practicedSeconds: 60 }, { poseId: 2, practicedSeconds: 300 }]),
+    session(1, [{ poseId: 1, practicedSeconds: 60 }, { poseId: 3, practicedSeconds: 60 }])
+  ], { now: NOW, topCount: 2 });
+
+  assert.deepEqual(stats.topPoses, [
+    { poseId: 1, title: 'Pose 1', count: 2, minutes: 2 },
+    { poseId: 2, title: 'Pose 2', count: 1, minutes: 5 }
+  ]);
+});
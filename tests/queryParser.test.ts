@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseSearchQuery, formatSearchQuery, compileResidualQuery } from '../src/services/queryParser.js';
+import { FilterState } from '../src/types/index.js';
+
+const emptyState: FilterState = {
+  search: '',
+  categories: [],
+  difficulties: [],
+  minDuration: null,
+  maxDuration: null,
+  tags: [],
+  tagMode: 'or',
+  instructor: '',
+  sort: 'default',
+  bookmarksOnly: false,
+  collection: ''
+};
+
+test('欄位條件轉為過濾條件，其餘文字保留為關鍵字', () => {
+  const parsed = parseSearchQuery('tag:balance difficulty:beginner duration:<15 category:站立式 "downward dog" -tag:inversion');
+
+  assert.deepEqual(parsed.filters, {
+    categories: ['站立式'],
+    difficulties: ['BEGINNER'],
+    minDuration: null,
+    maxDuration: 14,
+    tags: ['balance'],
+    instructor: ''
+  });
+  assert.equal(parsed.residual, '"downward dog" -tag:inversion');
+  assert.deepEqual(parsed.errors, []);
+});
+
+test('難度接受中文名稱，重複條件只保留一筆', () => {
+  const parsed = parseSearchQuery('difficulty:初級 DIFFICULTY:beginner tag:核心 tag:核心');
+
+  assert.deepEqual(parsed.filters.difficulties, ['BEGINNER']);
+  assert.deepEqual(parsed.filters.tags, ['核心']);
+});
+
+test('時長支援比較、範圍與固定值，多個條件取交集', () => {
+  assert.deepEqual(pickDuration('duration:>=10'), [10, null]);
+  assert.deepEqual(pickDuration('duration:>10'), [11, null]);
+  assert.deepEqual(pickDuration('duration:20-10'), [10, 20]);
+  assert.deepEqual(pickDuration('duration:5'), [5, 5]);
+  assert.deepEqual(pickDuration('duration:>=5 duration:<=12 duration:3-10'), [5, 10]);
+});
+
+function pickDuration(input: string): [number | null, number | null] {
+  const { filters } = parseSearchQuery(input);
+  return [filters.minDuration, filters.maxDuration];
+}
+
+test('未知欄位提示相近的欄位名稱', () => {
+  const parsed = parseSearchQuery('tga:balance 樹式');
+
+  assert.equal(parsed.errors.length, 1);
+  assert.match(parsed.errors[0], /tag:/);
+  assert.equal(parsed.residual, '樹式');
+});
+
+test('無效的難度與時長回報錯誤且不套用', () => {
+  const parsed = parseSearchQuery('difficulty:expert duration:abc -duration:<10');
+
+  assert.equal(parsed.errors.length, 3);
+  assert.deepEqual(parsed.filters.difficulties, []);
+  assert.equal(parsed.filters.minDuration, null);
+});
+
+test('未閉合的引號延伸到結尾', () => {
+  assert.equal(parseSearchQuery('"downward dog').residual, '"downward dog"');
+});
+
+test('過濾條件轉回查詢字串後可解析回相同的條件', () => {
+  const state: FilterState = {
+    ...emptyState,
+    search: '"half moon"',
+    categories: ['平衡式'],
+    difficulties: ['INTERMEDIATE'],
+    minDuration: 5,
+    tags: ['core strength'],
+    instructor: 'Amy'
+  };
+  const query = formatSearchQuery(state);
+  const parsed = parseSearchQuery(query);
+
+  assert.equal(query, '"half moon" category:平衡式 difficulty:intermediate duration:>=5 tag:"core strength" instructor:Amy');
+  assert.deepEqual(parsed.filters, {
+    categories: ['平衡式'],
+    difficulties: ['INTERMEDIATE'],
+    minDuration: 5,
+    maxDuration: null,
+    tags: ['core strength'],
+    instructor: 'Amy'
+  });
+  assert.equal(parsed.residual, '"half moon"');
+});
+
+test('其餘文字的第一個關鍵字交給 API，其餘關鍵字與排除條件在本地處理', () => {
+  assert.deepEqual(compileResidualQuery('"downward dog" twist -tag:inversion -hot -difficulty:advanced -category:倒立式 -instructor:Bob'), {
+    search: 'downward dog',
+    terms: ['twist'],
+    excludeTags: ['inversion'],
+    excludeTerms: ['hot'],
+    excludeDifficulties: ['ADVANCED'],
+    excludeCategories: ['倒立式'],
+    excludeInstructors: ['Bob']
+  });
+  assert.deepEqual(compileResidualQuery(''), {});
+});
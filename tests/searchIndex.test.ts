@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SearchIndex, editDistance, highlightText } from '../src/services/searchIndex.js';
+import { makePose } from './helpers/poses.js';
+
+const poses = [
+  makePose({ id: 1, title: 'Downward Dog', sanskrit_name: 'Adho Mukha Svanasana', tags: ['inversion', 'stretch'], description: '伸展背部與腿後側' }),
+  makePose({ id: 2, title: 'Tree Pose', sanskrit_name: 'Vrksasana', tags: ['balance'], description: '單腳站立的平衡姿勢' }),
+  makePose({ id: 3, title: 'Upward Dog', sanskrit_name: 'Urdhva Mukha Svanasana', tags: ['backbend'], benefits: ['強化手臂'] }),
+  makePose({ id: 4, title: '樹式', description: '改善平衡感', tags: ['平衡'] })
+];
+
+const ids = (index: SearchIndex, query: string) => index.search(query).map(result => result.pose.id);
+
+test('編輯距離將相鄰字元對調算一次編輯', () => {
+  assert.equal(editDistance('balance', 'balance'), 0);
+  assert.equal(editDistance('balnace', 'balance'), 1);
+  assert.equal(editDistance('tree', 'three'), 1);
+  assert.equal(editDistance('', 'dog'), 3);
+});
+
+test('名稱命中的排序高於其他欄位', () => {
+  const index = new SearchIndex([
+    makePose({ id: 10, title: 'Warrior', description: 'improves balance' }),
+    makePose({ id: 11, title: 'Balance Flow' })
+  ]);
+
+  assert.deepEqual(ids(index, 'balance'), [11, 10]);
+});
+
+test('支援前綴與錯字容忍', () => {
+  const index = new SearchIndex(poses);
+
+  assert.deepEqual(ids(index, 'vrksa'), [2]);
+  assert.deepEqual(ids(index, 'balnce'), [2]);
+  assert.deepEqual(ids(index, 'svanasnaa').sort(), [1, 3]);
+});
+
+test('每個英文單字都必須命中', () => {
+  const index = new SearchIndex(poses);
+
+  assert.deepEqual(ids(index, 'downward dog'), [1]);
+  assert.deepEqual(ids(index, 'downward tree'), []);
+});
+
+test('中文以雙字詞比對，單一個中文字比對包含該字的詞', () => {
+  const index = new SearchIndex(poses);
+
+  assert.deepEqual(ids(index, '平衡').sort(), [2, 4]);
+  assert.deepEqual(ids(index, '樹'), [4]);
+  assert.deepEqual(ids(index, '手臂'), [3]);
+});
+
+test('更新與移除動作會同步更新索引', () => {
+  const index = new SearchIndex(poses);
+
+  index.add([makePose({ id: 2, title: 'Chair Pose' })]);
+  assert.deepEqual(ids(index, 'tree'), []);
+  assert.deepEqual(ids(index, 'chair'), [2]);
+
+  index.remove(2);
+  assert.deepEqual(ids(index, 'chair'), []);
+  assert.equal(index.size, 3);
+});
+
+test('標示命中的索引詞並跳脫其餘文字', () => {
+  const [result] = new SearchIndex(poses).search('tree');
+
+  assert.equal(highlightText('Tree <Pose>', result.terms), '<mark>Tree</mark> &lt;Pose&gt;');
+  assert.equal(highlightText("It's", new Set()), 'It&#39;s');
+});
@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_TARGET_MINUTES, createSeededRandom, planSession } from '../src/services/sessionPlanner.js';
+import { PlanRequest } from '../src/types/index.js';
+import { makePose } from './helpers/poses.js';
+
+const LIBRARY = [
+  makePose({ id: 1, category: '坐姿式', duration_minutes: 3 }),
+  makePose({ id: 2, category: '站立式', duration_minutes: 4 }),
+  makePose({ id: 3, category: '站立式', duration_minutes: 2, tags: ['膝蓋'] }),
+  makePose({ id: 4, category: '後彎式', duration_minutes: 5, difficulty: 'INTERMEDIATE' }),
+  makePose({ id: 5, category: '前彎式', duration_minutes: 3 }),
+  makePose({ id: 6, category: '倒立式', duration_minutes: 4, difficulty: 'ADVANCED' }),
+  makePose({ id: 7, category: '休息式', duration_minutes: 2 })
+];
+
+/**
+ * 建立排課條件，未指定的欄位使用預設值
+ */
+function request(overrides: Partial<PlanRequest> = {}): PlanRequest {
+  return {
+    targetMinutes: 10,
+    maxDifficulty: 'ADVANCED',
+    focusCategories: [],
+    focusTags: [],
+    excludeTags: [],
+    seed: 'abc',
+    ...overrides
+  };
+}
+
+test('相同種子產生相同數列，且值介於 0 與 1 之間', () => {
+  const first = createSeededRandom('seed');
+  const second = createSeededRandom('seed');
+  const values = Array.from({ length: 5 }, () => first());
+
+  assert.deepEqual(Array.from({ length: 5 }, () => second()), values);
+  assert.ok(values.every(value => value >= 0 && value < 1));
+  assert.notDeepEqual(Array.from({ length: 5 }, createSeededRandom('other')), values);
+});
+
+test('相同條件與種子的課表相同，且不受動作庫順序影響', () => {
+  const plan = planSession(LIBRARY, request());
+  const reversed = planSession([...LIBRARY].reverse(), request());
+
+  assert.deepEqual(reversed.poses.map(item => item.pose.id), plan.poses.map(item => item.pose.id));
+});
+
+test('時長剛好湊滿目標，依階段排序並以休息動作收尾', () => {
+  const plan = planSession(LIBRARY, request({ targetMinutes: 12 }));
+  const phases = plan.poses.map(item => item.phase);
+
+  assert.equal(plan.totalMinutes, 12);
+  assert.deepEqual(plan.warnings, []);
+  assert.equal(plan.poses[plan.poses.length - 1].pose.id, 7);
+  const order = ['暖身', '站立', '平衡與後彎', '前彎', '休息'];
+  assert.deepEqual([...phases].sort((a, b) => order.indexOf(a) - order.indexOf(b)), phases);
+});
+
+test('遵守難度上限與排除的標籤', () => {
+  const plan = planSession(LIBRARY, request({ targetMinutes: 30, maxDifficulty: 'BEGINNER', excludeTags: ['膝蓋'] }));
+  const ids = plan.poses.map(item => item.pose.id);
+
+  assert.deepEqual([...ids].sort((a, b) => a - b), [1, 2, 5, 7]);
+  assert.equal(plan.totalMinutes, 12);
+  assert.deepEqual(plan.warnings, ['符合條件的動作只夠安排 12 分鐘（目標 30 分鐘）']);
+});
+
+test('目標時間限制在上限內', () => {
+  const plan = planSession(LIBRARY, request({ targetMinutes: 1000 }));
+
+  assert.equal(plan.request.targetMinutes, MAX_TARGET_MINUTES);
+});
+
+test('沒有符合條件的動作或休息動作時提出警告', () => {
+  const none = planSession([LIBRARY[5]], request({ maxDifficulty: 'BEGINNER' }));
+  assert.deepEqual(none.poses, []);
+  assert.deepEqual(none.warnings, ['沒有符合條件的動作，請提高難度上限或減少排除的標籤']);
+
+  const noRest = planSession(LIBRARY.slice(0, 2), request({ targetMinutes: 7, focusTags: ['不存在'] }));
+  assert.deepEqual(noRest.warnings, [
+    '沒有符合重點分類或標籤的動作，已改用其他動作',
+    '沒有可用的休息式動作，結尾未安排休息'
+  ]);
+});
+
+test('符合重點的動作優先排入', () => {
+  const plan = planSession(LIBRARY, request({ targetMinutes: 4, focusTags: ['膝蓋'] }));
+
+  assert.deepEqual(plan.poses.map(item => item.pose.id), [3, 7]);
+});
@@ -0,0 +1,106 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  decodeYogaPose,
+  decodeYogaPoseList,
+  decodeAuthResponse,
+  decodeBookmarkListResponse,
+  decodeCategoriesResponse,
+  getValidationReports,
+  clearValidationReports
+} from '../src/services/validation.js';
+import { MalformedResponseError } from '../src/services/errors.js';
+
+// 驗證問題會輸出警告，測試時不顯示
+console.warn = () => {};
+
+const validPose = {
+  id: 1,
+  title: '山式',
+  description: '站立的基本姿勢',
+  category: '站立式',
+  tags: ['基礎'],
+  sanskrit_name: 'Tadasana',
+  difficulty: 'BEGINNER',
+  duration_minutes: 3,
+  instructor: 'Amy',
+  created_at: '2024-01-01',
+  updated_at: '2024-01-02',
+  published_at: '2024-01-03',
+  image_url: 'images/MountainPose.jpg',
+  video_url: '',
+  benefits: ['改善姿勢']
+};
+
+beforeEach(() => clearValidationReports());
+
+test('有效的動作不產生驗證報告，並補齊向後相容欄位', () => {
+  const pose = decodeYogaPose(validPose, '/yoga-poses/1');
+
+  assert.equal(pose.title, '山式');
+  assert.equal(pose.imageUrl, 'images/MountainPose.jpg');
+  assert.equal(pose.level, 'BEGINNER');
+  assert.equal(pose.keys, '暫無要點資訊');
+  assert.deepEqual(getValidationReports(), []);
+});
+
+test('可轉換的欄位會被轉換並記錄為 coerced', () => {
+  const pose = decodeYogaPose({ ...validPose, id: '7', duration_minutes: '5', tags: '平衡, 核心', instructor: 42 }, '/yoga-poses/7');
+
+  assert.equal(pose.id, 7);
+  assert.equal(pose.duration_minutes, 5);
+  assert.deepEqual(pose.tags, ['平衡', '核心']);
+  assert.equal(pose.instructor, '42');
+
+  const [report] = getValidationReports();
+  assert.deepEqual(report.issues.map(issue => [issue.path, issue.action]), [
+    ['pose.tags', 'coerced'],
+    ['pose.duration_minutes', 'coerced'],
+    ['pose.instructor', 'coerced']
+  ]);
+});
+
+test('缺少 id 或標題的單筆動作拋出 MalformedResponseError', () => {
+  assert.throws(() => decodeYogaPose({ ...validPose, id: 'abc' }, '/yoga-poses/x'), MalformedResponseError);
+  assert.throws(() => decodeYogaPose({ ...validPose, title: ' ' }, '/yoga-poses/1'), MalformedResponseError);
+  assert.throws(() => decodeYogaPose(null, '/yoga-poses/1'), MalformedResponseError);
+});
+
+test('列表只丟棄無效項目，並記錄丟棄數量', () => {
+  const list = decodeYogaPoseList({
+    items: [validPose, { id: 2 }, 'oops', { ...validPose, id: 3 }],
+    pagination: { page: 1, limit: 10, total: 4 }
+  }, '/yoga-poses');
+
+  assert.deepEqual(list.items.map(pose => pose.id), [1, 3]);
+  assert.deepEqual(list.pagination, { page: 1, limit: 10, total: 4 });
+  assert.equal(getValidationReports()[0].droppedItems, 2);
+});
+
+test('列表缺少分頁資訊時使用預設值', () => {
+  const list = decodeYogaPoseList({ items: [validPose] }, '/yoga-poses', { page: 2, limit: 6 });
+
+  assert.deepEqual(list.pagination, { page: 2, limit: 6, total: 1 });
+  assert.equal(getValidationReports()[0].issues[0].path, 'pagination');
+});
+
+test('列表缺少 items 陣列時拋出錯誤', () => {
+  assert.throws(() => decodeYogaPoseList({ data: [] }, '/yoga-poses'), MalformedResponseError);
+});
+
+test('認證回應必須有 token', () => {
+  assert.deepEqual(decodeAuthResponse({ user_id: '5', token: 'abc' }, '/auth/login'), { user_id: 5, token: 'abc' });
+  assert.throws(() => decodeAuthResponse({ user_id: 5 }, '/auth/login'), MalformedResponseError);
+});
+
+test('收藏列表轉換數字字串並移除無效 id', () => {
+  assert.deepEqual(decodeBookmarkListResponse({ item_ids: [1, '2', 'x', 3.5, null] }, '/bookmarks'), { item_ids: [1, 2] });
+  assert.equal(getValidationReports()[0].droppedItems, 3);
+});
+
+test('分類列表移除空值與重複分類', () => {
+  assert.deepEqual(
+    decodeCategoriesResponse({ categories: ['站立式', '', '站立式', 3, '坐姿式'] }, '/categories'),
+    { categories: ['站立式', '坐姿式'] }
+  );
+});
@@ -0,0 +1,20 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { visibleRange } from '../src/services/virtualList.js';
+
+const HEIGHTS = [100, 100, 100, 100];
+
+test('只包含與可視範圍重疊的項目', () => {
+  assert.deepEqual(visibleRange(HEIGHTS, 150, 250), { start: 1, end: 2 });
+  assert.deepEqual(visibleRange(HEIGHTS, -100, 500), { start: 0, end: 3 });
+});
+
+test('依各項目實際高度計算位置', () => {
+  assert.deepEqual(visibleRange([300, 50, 50, 300], 320, 390), { start: 1, end: 2 });
+});
+
+test('可視範圍在列表之外或列表為空時範圍為空', () => {
+  assert.deepEqual(visibleRange(HEIGHTS, 1000, 1200), { start: 4, end: 3 });
+  assert.deepEqual(visibleRange(HEIGHTS, -500, -10), { start: 0, end: -1 });
+  assert.deepEqual(visibleRange([], 0, 500), { start: 0, end: -1 });
+});